@@ -2,6 +2,10 @@
 const nextConfig = {
   output: 'standalone', // Required for Docker deployment
   reactStrictMode: true,
+  experimental: {
+    instrumentationHook: true, // Starts the background job worker (src/instrumentation.ts)
+    serverComponentsExternalPackages: ['cheerio', 'pdfjs-dist'], // Loaded from node_modules, not bundled
+  },
   images: {
     domains: [],
   },
@@ -0,0 +1,29 @@
+/**
+ * GET /api/audio/[id] - Podcast audio kept by the local storage driver
+ * Same access rules and Range support as /api/podcasts/[id]/audio (see lib/streaming)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { serveAudio } from '@/lib/streaming';
+
+export const dynamic = 'force-dynamic';
+
+async function handle(request: NextRequest, id: string) {
+    try {
+        return await serveAudio(request, id);
+    } catch (error: any) {
+        console.error('Error serving audio:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+    return handle(request, params.id);
+}
+
+export async function HEAD(request: NextRequest, { params }: { params: { id: string } }) {
+    return handle(request, params.id);
+}
@@ -0,0 +1,55 @@
+/**
+ * POST /api/documents/chapters - List the chapters of an uploaded EPUB
+ *
+ * Takes multipart/form-data with a `file`. Pass a chapter's `index` as `chapter`
+ * to POST /api/podcasts to narrate just that chapter. Other formats have no chapters.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listDocumentChapters } from '@/lib/extractor';
+import { checkUploadLength, validateUpload, toSourceDocument } from '@/lib/uploads';
+import { getCurrentUserId } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const lengthError = checkUploadLength(request);
+        if (lengthError) {
+            return lengthError;
+        }
+
+        const form = await request.formData();
+        const file = form.get('file');
+
+        if (!(file instanceof File)) {
+            return NextResponse.json({ error: 'A file is required' }, { status: 400 });
+        }
+
+        const uploadError = validateUpload(file);
+        if (uploadError) {
+            return uploadError;
+        }
+
+        const chapters = listDocumentChapters(await toSourceDocument(file));
+
+        return NextResponse.json({
+            chapters: chapters.map(chapter => ({
+                index: chapter.index,
+                title: chapter.title,
+                word_count: chapter.wordCount,
+            })),
+        });
+
+    } catch (error: any) {
+        console.error('Error listing chapters:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,42 @@
+/**
+ * GET /api/feeds/[token]/rss.xml - Private RSS feed of a user's completed podcasts
+ * The token is the only credential, so podcast apps can poll it without signing in.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFeedToken, getPodcastsByUser } from '@/lib/db';
+import { buildPodcastFeed, getBaseUrl } from '@/lib/feed';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { token: string } }
+) {
+    try {
+        const feedToken = await getFeedToken(params.token);
+
+        if (!feedToken) {
+            return NextResponse.json(
+                { error: 'Feed not found' },
+                { status: 404 }
+            );
+        }
+
+        const podcasts = await getPodcastsByUser(feedToken.userId);
+
+        return new NextResponse(buildPodcastFeed(podcasts, getBaseUrl(request), feedToken.token), {
+            headers: {
+                'Content-Type': 'application/rss+xml; charset=utf-8',
+                'Cache-Control': 'private, max-age=300',
+            },
+        });
+
+    } catch (error: any) {
+        console.error('Error building feed:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,38 @@
+/**
+ * GET /api/feeds/[token]/transcripts/[id] - WebVTT transcript for a feed episode
+ * Linked from the feed's <podcast:transcript> tags
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFeedToken, getUserPodcast, getTranscriptSegments } from '@/lib/db';
+import { exportTranscript } from '@/lib/transcript';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { token: string; id: string } }
+) {
+    try {
+        const feedToken = await getFeedToken(params.token);
+        const podcast = feedToken ? await getUserPodcast(params.id, feedToken.userId) : null;
+
+        if (!podcast || podcast.status !== 'completed') {
+            return NextResponse.json(
+                { error: 'Transcript not found' },
+                { status: 404 }
+            );
+        }
+
+        const file = exportTranscript('vtt', podcast.title, await getTranscriptSegments(podcast.id));
+
+        return new NextResponse(file.body, {
+            headers: { 'Content-Type': file.contentType },
+        });
+
+    } catch (error: any) {
+        console.error('Error getting feed transcript:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * GET /api/feeds - Get the current user's private RSS feed URL (null if none)
+ * POST /api/feeds - Create the feed URL, replacing (revoking) any previous one
+ * DELETE /api/feeds - Revoke the feed URL
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFeedTokenForUser, createFeedToken, revokeFeedToken } from '@/lib/db';
+import { getCurrentUserId } from '@/lib/auth';
+import { getBaseUrl, getFeedUrl } from '@/lib/feed';
+
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const feedToken = await getFeedTokenForUser(userId);
+
+        return NextResponse.json({
+            feed_url: feedToken ? getFeedUrl(getBaseUrl(request), feedToken.token) : null,
+            created_at: feedToken?.createdAt || null,
+        });
+
+    } catch (error: any) {
+        console.error('Error getting feed:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const feedToken = await createFeedToken(userId);
+        console.log(`📡 Feed token issued for user ${userId}`);
+
+        return NextResponse.json({
+            feed_url: getFeedUrl(getBaseUrl(request), feedToken.token),
+            created_at: feedToken.createdAt,
+        }, { status: 201 });
+
+    } catch (error: any) {
+        console.error('Error creating feed:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!(await revokeFeedToken(userId))) {
+            return NextResponse.json(
+                { error: 'No feed to revoke' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+
+    } catch (error: any) {
+        console.error('Error revoking feed:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
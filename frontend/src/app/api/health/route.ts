@@ -3,12 +3,13 @@
  */
 
 import { NextResponse } from 'next/server';
+import { PRODUCT_NAME } from '@/lib/product';
 
 export async function GET() {
     return NextResponse.json({
         status: 'healthy',
         timestamp: new Date().toISOString(),
         version: '1.0.0',
-        service: 'Read-It-Out AI',
+        service: PRODUCT_NAME,
     });
 }
@@ -0,0 +1,30 @@
+/**
+ * GET /api/podcasts/[id]/audio - Stream a podcast's audio from any storage driver
+ * Supports Range requests (206 Partial Content), ETag revalidation and HEAD.
+ * Reachable without a session for shared podcasts and feed tokens (see lib/streaming)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { serveAudio } from '@/lib/streaming';
+
+export const dynamic = 'force-dynamic';
+
+async function handle(request: NextRequest, id: string) {
+    try {
+        return await serveAudio(request, id);
+    } catch (error: any) {
+        console.error('Error serving audio:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+    return handle(request, params.id);
+}
+
+export async function HEAD(request: NextRequest, { params }: { params: { id: string } }) {
+    return handle(request, params.id);
+}
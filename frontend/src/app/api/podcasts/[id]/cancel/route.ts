@@ -0,0 +1,66 @@
+/**
+ * POST /api/podcasts/[id]/cancel - Stop an in-progress podcast generation
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Podcast, cancelPodcast, getPodcast, getUserPodcast } from '@/lib/db';
+import { cancelPodcastJobs, queueNextEpisode } from '@/lib/jobs';
+import { getCurrentUserId } from '@/lib/auth';
+
+const FINISHED_STATUSES: Podcast['status'][] = ['completed', 'failed', 'cancelled'];
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const podcast = await getUserPodcast(params.id, userId);
+
+        if (!podcast) {
+            return NextResponse.json(
+                { error: 'Podcast not found' },
+                { status: 404 }
+            );
+        }
+
+        if (FINISHED_STATUSES.includes(podcast.status)) {
+            return NextResponse.json(
+                { error: `Podcast is already ${podcast.status}` },
+                { status: 409 }
+            );
+        }
+
+        // Mark it first: the pipeline only moves the status on while it isn't cancelled
+        const updated = await cancelPodcast(params.id);
+
+        if (!updated) {
+            const current = await getPodcast(params.id);
+            return NextResponse.json(
+                { error: current ? `Podcast is already ${current.status}` : 'Podcast not found' },
+                { status: current ? 409 : 404 }
+            );
+        }
+
+        await cancelPodcastJobs(params.id);
+        // Let the series move on - an episode that wasn't running has no job to do it
+        queueNextEpisode(updated).catch(console.error);
+
+        return NextResponse.json({
+            id: podcast.id,
+            status: updated.status,
+        });
+
+    } catch (error: any) {
+        console.error('Error cancelling podcast:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
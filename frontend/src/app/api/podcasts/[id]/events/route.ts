@@ -0,0 +1,103 @@
+/**
+ * GET /api/podcasts/[id]/events - Stream generation progress as Server-Sent Events
+ *
+ * Sends the current state immediately, then one `data:` message per update.
+ * The stream ends after the podcast reaches `completed`, `failed` or `cancelled`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Podcast, getUserPodcast } from '@/lib/db';
+import { subscribeToPodcast } from '@/lib/events';
+import { getCurrentUserId } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+const KEEP_ALIVE_MS = 15000;
+const TERMINAL_STATUSES: Podcast['status'][] = ['completed', 'failed', 'cancelled'];
+
+function toEvent(podcast: Podcast) {
+    return {
+        id: podcast.id,
+        title: podcast.title,
+        status: podcast.status,
+        progress: podcast.progress,
+        error_message: podcast.errorMessage,
+    };
+}
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const podcast = await getUserPodcast(params.id, userId);
+
+        if (!podcast) {
+            return NextResponse.json(
+                { error: 'Podcast not found' },
+                { status: 404 }
+            );
+        }
+
+        const encoder = new TextEncoder();
+        let cleanup = () => { };
+
+        const stream = new ReadableStream({
+            start(controller) {
+                let closed = false;
+
+                const keepAlive = setInterval(() => {
+                    controller.enqueue(encoder.encode(': keep-alive\n\n'));
+                }, KEEP_ALIVE_MS);
+
+                const unsubscribe = subscribeToPodcast(podcast.id, (updated) => send(updated));
+
+                cleanup = () => {
+                    if (closed) return;
+                    closed = true;
+                    clearInterval(keepAlive);
+                    unsubscribe();
+                };
+
+                const send = (current: Podcast) => {
+                    if (closed) return;
+                    controller.enqueue(encoder.encode(`data: ${JSON.stringify(toEvent(current))}\n\n`));
+
+                    if (TERMINAL_STATUSES.includes(current.status)) {
+                        cleanup();
+                        controller.close();
+                    }
+                };
+
+                request.signal.addEventListener('abort', () => cleanup());
+                send(podcast);
+            },
+            cancel() {
+                cleanup();
+            },
+        });
+
+        return new Response(stream, {
+            headers: {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache, no-transform',
+                'Connection': 'keep-alive',
+                // Stop nginx-style proxies from buffering the stream
+                'X-Accel-Buffering': 'no',
+            },
+        });
+
+    } catch (error: any) {
+        console.error('Error streaming podcast events:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
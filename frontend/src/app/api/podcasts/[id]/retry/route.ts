@@ -0,0 +1,63 @@
+/**
+ * POST /api/podcasts/[id]/retry - Resume a failed or cancelled podcast from its first incomplete stage
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPodcast, getUserPodcast, retryPodcast } from '@/lib/db';
+import { enqueuePodcastJob } from '@/lib/jobs';
+import { getCurrentUserId } from '@/lib/auth';
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const podcast = await getUserPodcast(params.id, userId);
+
+        if (!podcast) {
+            return NextResponse.json(
+                { error: 'Podcast not found' },
+                { status: 404 }
+            );
+        }
+
+        if (podcast.status !== 'failed' && podcast.status !== 'cancelled') {
+            return NextResponse.json(
+                { error: 'Only failed or cancelled podcasts can be retried' },
+                { status: 409 }
+            );
+        }
+
+        // Checked again in the same write as the reset, so a second click can't queue a second run
+        const updated = await retryPodcast(params.id);
+
+        if (!updated) {
+            const current = await getPodcast(params.id);
+            return NextResponse.json(
+                { error: current ? 'Podcast is already being generated' : 'Podcast not found' },
+                { status: current ? 409 : 404 }
+            );
+        }
+
+        await enqueuePodcastJob(params.id);
+
+        return NextResponse.json({
+            id: podcast.id,
+            status: updated.status,
+            completed_stages: updated.completedStages || [],
+        }, { status: 202 });
+
+    } catch (error: any) {
+        console.error('Error retrying podcast:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
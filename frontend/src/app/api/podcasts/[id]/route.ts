@@ -1,19 +1,30 @@
 /**
- * GET /api/podcasts/[id] - Get podcast by ID
+ * GET /api/podcasts/[id] - Get podcast by ID (private audio gets a fresh signed URL)
  * DELETE /api/podcasts/[id] - Delete podcast
- * PATCH /api/podcasts/[id] - Toggle public status
+ * PATCH /api/podcasts/[id] - Toggle public status, sharing or revoking access to the audio
+ *
+ * All handlers respond 404 for podcasts owned by another user
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getPodcast, deletePodcast, updatePodcast } from '@/lib/db';
-import { deleteAudio } from '@/lib/firebase';
+import { getUserPodcast, deletePodcast, updatePodcast } from '@/lib/db';
+import { deleteAudio, resolveAudioUrl, setAudioPublic } from '@/lib/storage';
+import { deleteAudioCheckpoint } from '@/lib/checkpoints';
+import { cancelPodcastJobs, queueNextEpisode } from '@/lib/jobs';
+import { getCurrentUserId } from '@/lib/auth';
 
 export async function GET(
     request: NextRequest,
     { params }: { params: { id: string } }
 ) {
     try {
-        const podcast = await getPodcast(params.id);
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const podcast = await getUserPodcast(params.id, userId);
 
         if (!podcast) {
             return NextResponse.json(
@@ -29,13 +40,25 @@ export async function GET(
             title: podcast.title,
             source_url: podcast.sourceUrl,
             source_text: podcast.sourceText,
+            source_file_name: podcast.sourceFile?.name,
+            source_chapter: podcast.sourceChapter,
+            series_id: podcast.seriesId,
+            episode_number: podcast.episodeNumber,
             tone: podcast.tone,
             voice_style: podcast.voiceStyle,
             duration_type: podcast.durationType,
+            author: podcast.author,
+            authors: podcast.authors,
+            canonical_url: podcast.canonicalUrl,
+            published_at: podcast.publishedAt,
+            site_name: podcast.siteName,
+            language: podcast.language,
+            image_url: podcast.imageUrl,
             script: podcast.script,
-            audio_url: podcast.audioUrl,
+            audio_url: await resolveAudioUrl(podcast),
             audio_duration_seconds: podcast.audioDurationSeconds?.toString(),
             status: podcast.status,
+            progress: podcast.progress,
             error_message: podcast.errorMessage,
             is_public: podcast.isPublic ? 'true' : 'false',
             share_slug: podcast.shareSlug,
@@ -63,7 +86,13 @@ export async function DELETE(
     { params }: { params: { id: string } }
 ) {
     try {
-        const podcast = await getPodcast(params.id);
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const podcast = await getUserPodcast(params.id, userId);
 
         if (!podcast) {
             return NextResponse.json(
@@ -72,15 +101,21 @@ export async function DELETE(
             );
         }
 
-        // Delete audio from Firebase
+        // Stop generation if it is still running
+        await cancelPodcastJobs(params.id);
+
+        // Delete audio from storage
         try {
             await deleteAudio(params.id);
         } catch (e) {
-            console.error('Failed to delete audio from Firebase:', e);
+            console.error('Failed to delete audio from storage:', e);
         }
 
+        await deleteAudioCheckpoint(params.id);
+
         // Delete from database
         await deletePodcast(params.id);
+        queueNextEpisode(podcast).catch(console.error);
 
         return new NextResponse(null, { status: 204 });
 
@@ -101,7 +136,13 @@ export async function PATCH(
     { params }: { params: { id: string } }
 ) {
     try {
-        const podcast = await getPodcast(params.id);
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const podcast = await getUserPodcast(params.id, userId);
 
         if (!podcast) {
             return NextResponse.json(
@@ -110,10 +151,16 @@ export async function PATCH(
             );
         }
 
-        // Toggle public status
-        const updated = await updatePodcast(params.id, {
-            isPublic: !podcast.isPublic,
-        });
+        // Toggle public status - storage first, so a failed revoke leaves the podcast shared
+        const isPublic = !podcast.isPublic;
+        await setAudioPublic(podcast, isPublic);
+
+        const updated = await updatePodcast(params.id, { isPublic });
+
+        // Audio uploaded since the podcast was read came out with the old setting
+        if (updated?.audioKey && updated.audioKey !== podcast.audioKey) {
+            await setAudioPublic(updated, isPublic);
+        }
 
         return NextResponse.json({
             is_public: updated?.isPublic ? 'true' : 'false',
@@ -1,16 +1,25 @@
 /**
  * GET /api/podcasts/[id]/transcript - Get transcript segments
+ * Paginated with ?cursor=&limit= and/or ?from=&to=, or exported with ?format=srt|vtt|txt|md (see lib/transcript.ts)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getPodcast, getTranscriptSegments } from '@/lib/db';
+import { getUserPodcast, getTranscriptPage, getTranscriptSegments } from '@/lib/db';
+import { getCurrentUserId } from '@/lib/auth';
+import { TranscriptQuery, exportTranscript, isTranscriptFormat, parseTranscriptQuery, toTranscriptResponse } from '@/lib/transcript';
 
 export async function GET(
     request: NextRequest,
     { params }: { params: { id: string } }
 ) {
     try {
-        const podcast = await getPodcast(params.id);
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const podcast = await getUserPodcast(params.id, userId);
 
         if (!podcast) {
             return NextResponse.json(
@@ -26,24 +35,35 @@ export async function GET(
             );
         }
 
-        const segments = await getTranscriptSegments(params.id);
-
-        // Map to expected response format
-        const response = {
-            podcast_id: podcast.id,
-            segments: segments.map(s => ({
-                id: s.id,
-                sentence_index: s.sentenceIndex,
-                text: s.text,
-                start_time: s.startTime,
-                end_time: s.endTime,
-            })),
-            total_duration: segments.length > 0
-                ? Math.max(...segments.map(s => s.endTime))
-                : 0,
-        };
-
-        return NextResponse.json(response);
+        // Whole transcript as a caption or text file
+        const format = request.nextUrl.searchParams.get('format');
+        if (format && format !== 'json') {
+            if (!isTranscriptFormat(format)) {
+                return NextResponse.json(
+                    { error: 'Invalid format. Use srt, vtt, txt, md or json' },
+                    { status: 400 }
+                );
+            }
+
+            const file = exportTranscript(format, podcast.title, await getTranscriptSegments(params.id));
+            return new NextResponse(file.body, {
+                headers: {
+                    'Content-Type': file.contentType,
+                    'Content-Disposition': `attachment; filename="${file.filename}"`,
+                },
+            });
+        }
+
+        let query: TranscriptQuery;
+        try {
+            query = parseTranscriptQuery(request.nextUrl.searchParams);
+        } catch (error: any) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+
+        const page = await getTranscriptPage(params.id, query);
+
+        return NextResponse.json(toTranscriptResponse(podcast.id, page));
 
     } catch (error: any) {
         console.error('Error getting transcript:', error);
@@ -1,115 +1,102 @@
 /**
  * POST /api/podcasts - Create a new podcast
  * GET /api/podcasts - List user's podcasts
+ *
+ * POST takes JSON, or multipart/form-data with the same fields plus a `file`
+ * (PDF, EPUB, DOCX, Markdown or HTML) and, for EPUBs, a `chapter` index
+ * (see /api/documents/chapters) to narrate one chapter instead of the whole book
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createPodcast, getPodcastsByUser, updatePodcast, Podcast, createTranscriptBatch } from '@/lib/db';
-import { extractContent } from '@/lib/extractor';
-import { summarizeForDuration } from '@/lib/openai';
-import { generateAudio } from '@/lib/tts';
-import { uploadAudio } from '@/lib/firebase';
-
-// For testing without auth
-const TEST_USER_ID = 'test-user-123';
+import { createPodcast, getPodcastsByUser, updatePodcast } from '@/lib/db';
+import { resolveAudioUrl, saveSourceFile } from '@/lib/storage';
+import { getDocumentType } from '@/lib/extractor';
+import { checkUploadLength, validateUpload, toSourceDocument } from '@/lib/uploads';
+import { enqueuePodcastJob } from '@/lib/jobs';
+import { getCurrentUserId } from '@/lib/auth';
 
 /**
- * Process podcast generation (runs in background)
+ * Read the request body as plain fields, whether sent as JSON or a form upload
  */
-async function processPodcast(podcast: Podcast): Promise<void> {
-    try {
-        console.log(`🎙️ Starting podcast generation: ${podcast.id}`);
-        console.log(`📊 Duration type: ${podcast.durationType}`);
-
-        // 1. Extract content
-        await updatePodcast(podcast.id, { status: 'extracting' });
-
-        const { title, content: rawContent, author } = await extractContent(
-            podcast.sourceUrl,
-            podcast.sourceText
-        );
-
-        await updatePodcast(podcast.id, { title, status: 'processing' });
-        console.log(`📝 Extracted: "${title}" (${rawContent.split(/\s+/).length} words)`);
-
-        // 2. Summarize content using OpenAI (for shorter durations)
-        const { summary: content, wordCount } = await summarizeForDuration({
-            content: rawContent,
-            title,
-            durationType: podcast.durationType,
-            author,
-        });
-
-        console.log(`📏 Final content: ${wordCount} words (~${Math.round(wordCount / 150)} min)`);
-
-        // 3. Generate audio
-        await updatePodcast(podcast.id, { status: 'generating_audio' });
-
-        const { audio, duration } = await generateAudio(content, podcast.voiceStyle);
-
-        // 4. Upload to Firebase
-        await updatePodcast(podcast.id, { status: 'uploading' });
-
-        const audioUrl = await uploadAudio(audio, podcast.id);
-
-        // 5. Create transcript segments
-        const sentences = content.split(/(?<=[.!?])\s+/).filter(s => s.trim());
-        const timePerSentence = duration / Math.max(sentences.length, 1);
-
-        const segments = sentences.slice(0, 100).map((text, i) => ({
-            text: text.trim(),
-            startTime: i * timePerSentence,
-            endTime: (i + 1) * timePerSentence,
-        }));
-
-        await createTranscriptBatch(podcast.id, segments);
-
-        // 6. Mark completed
-        await updatePodcast(podcast.id, {
-            status: 'completed',
-            audioUrl,
-            audioDurationSeconds: Math.round(duration),
-            script: content,
-            completedAt: new Date().toISOString(),
-        });
+async function readCreateRequest(request: NextRequest): Promise<{ fields: Record<string, any>; file: File | null }> {
+    if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+        return { fields: await request.json(), file: null };
+    }
 
-        console.log(`✅ Podcast completed: ${podcast.id} (${Math.round(duration / 60)} min)`);
+    const form = await request.formData();
+    const fields: Record<string, any> = {};
+    form.forEach((value, key) => {
+        if (typeof value === 'string') fields[key] = value;
+    });
+    const file = form.get('file');
 
-    } catch (error: any) {
-        console.error(`❌ Podcast failed: ${podcast.id}`, error);
-        await updatePodcast(podcast.id, {
-            status: 'failed',
-            errorMessage: error.message || 'Unknown error',
-        });
-    }
+    return { fields, file: file instanceof File ? file : null };
 }
 
 /**
- * POST /api/podcasts - Create new podcast (starts background processing)
+ * POST /api/podcasts - Create new podcast (queues background processing)
  */
 export async function POST(request: NextRequest) {
     try {
-        const body = await request.json();
-        const { source_url, source_text, voice_style, duration_type } = body;
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const lengthError = checkUploadLength(request);
+        if (lengthError) {
+            return lengthError;
+        }
+
+        const { fields, file } = await readCreateRequest(request);
+        const { source_url, source_text, voice_style, duration_type, skip_references, chapter } = fields;
 
-        if (!source_url && !source_text) {
+        if (!source_url && !source_text && !file) {
             return NextResponse.json(
-                { error: 'Either source_url or source_text is required' },
+                { error: 'Either source_url, source_text or a file is required' },
+                { status: 400 }
+            );
+        }
+
+        const uploadError = file && validateUpload(file);
+        if (uploadError) {
+            return uploadError;
+        }
+
+        const hasChapter = chapter !== undefined && chapter !== '';
+        const sourceChapter = hasChapter ? Number(chapter) : undefined;
+        if (hasChapter && (!file || getDocumentType(file.name, file.type) !== 'epub' || !Number.isInteger(sourceChapter) || sourceChapter! < 0)) {
+            return NextResponse.json(
+                { error: 'chapter must be a chapter index of an uploaded EPUB' },
                 { status: 400 }
             );
         }
 
         // Create podcast record
-        const podcast = await createPodcast({
-            userId: TEST_USER_ID,
-            sourceUrl: source_url,
-            sourceText: source_text,
+        let podcast = await createPodcast({
+            userId,
+            sourceUrl: file ? undefined : source_url,
+            sourceText: file ? undefined : source_text,
+            sourceChapter,
+            // Form fields arrive as strings
+            skipReferences: skip_references !== undefined && skip_references !== false && skip_references !== 'false',
             voiceStyle: voice_style || 'narrator',
             durationType: duration_type || '5min',
         });
 
-        // Process in background (don't await - returns immediately)
-        processPodcast(podcast).catch(console.error);
+        // Keep the upload for the background worker
+        if (file) {
+            const document = await toSourceDocument(file);
+            const key = await saveSourceFile(podcast.id, document.name, document.data, document.contentType);
+            podcast = (await updatePodcast(podcast.id, {
+                title: file.name,
+                sourceFile: { key, name: document.name, contentType: document.contentType, size: file.size },
+            }))!;
+        }
+
+        // Queue for the background worker (returns immediately)
+        await enqueuePodcastJob(podcast.id);
 
         // Return immediately with pending status
         return NextResponse.json({
@@ -117,6 +104,8 @@ export async function POST(request: NextRequest) {
             user_id: podcast.userId,
             title: podcast.title,
             source_url: podcast.sourceUrl,
+            source_file_name: podcast.sourceFile?.name,
+            source_chapter: podcast.sourceChapter,
             voice_style: podcast.voiceStyle,
             duration_type: podcast.durationType,
             status: podcast.status,
@@ -139,18 +128,26 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
     try {
-        const podcasts = await getPodcastsByUser(TEST_USER_ID);
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const podcasts = await getPodcastsByUser(userId);
 
         return NextResponse.json({
-            podcasts: podcasts.map(p => ({
+            podcasts: await Promise.all(podcasts.map(async p => ({
                 id: p.id,
                 title: p.title,
-                audio_url: p.audioUrl,
+                audio_url: await resolveAudioUrl(p),
                 audio_duration_seconds: p.audioDurationSeconds?.toString(),
                 status: p.status,
                 voice_style: p.voiceStyle,
+                series_id: p.seriesId,
+                episode_number: p.episodeNumber,
                 created_at: p.createdAt,
-            })),
+            }))),
             total: podcasts.length,
             page: 1,
             per_page: 50,
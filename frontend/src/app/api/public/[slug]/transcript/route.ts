@@ -1,31 +1,18 @@
 /**
  * GET /api/public/[slug]/transcript - Get transcript for public podcast
+ * Paginated and exported like the owner's transcript route
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
-
-const DB_PATH = path.join(process.cwd(), 'data', 'db.json');
-
-async function getDb() {
-    try {
-        const data = await fs.readFile(DB_PATH, 'utf-8');
-        return JSON.parse(data);
-    } catch {
-        return { podcasts: [], transcripts: [] };
-    }
-}
+import { getPodcastByShareSlug, getTranscriptPage, getTranscriptSegments } from '@/lib/db';
+import { TranscriptQuery, exportTranscript, isTranscriptFormat, parseTranscriptQuery, toTranscriptResponse } from '@/lib/transcript';
 
 export async function GET(
     request: NextRequest,
     { params }: { params: { slug: string } }
 ) {
     try {
-        const db = await getDb();
-        const podcast = db.podcasts.find(
-            (p: any) => p.shareSlug === params.slug && p.isPublic
-        );
+        const podcast = await getPodcastByShareSlug(params.slug);
 
         if (!podcast) {
             return NextResponse.json(
@@ -34,23 +21,35 @@ export async function GET(
             );
         }
 
-        const segments = db.transcripts
-            .filter((t: any) => t.podcastId === podcast.id)
-            .sort((a: any, b: any) => a.sentenceIndex - b.sentenceIndex);
-
-        return NextResponse.json({
-            podcast_id: podcast.id,
-            segments: segments.map((s: any) => ({
-                id: s.id,
-                sentence_index: s.sentenceIndex,
-                text: s.text,
-                start_time: s.startTime,
-                end_time: s.endTime,
-            })),
-            total_duration: segments.length > 0
-                ? Math.max(...segments.map((s: any) => s.endTime))
-                : 0,
-        });
+        // Whole transcript as a caption or text file
+        const format = request.nextUrl.searchParams.get('format');
+        if (format && format !== 'json') {
+            if (!isTranscriptFormat(format)) {
+                return NextResponse.json(
+                    { error: 'Invalid format. Use srt, vtt, txt, md or json' },
+                    { status: 400 }
+                );
+            }
+
+            const file = exportTranscript(format, podcast.title, await getTranscriptSegments(podcast.id));
+            return new NextResponse(file.body, {
+                headers: {
+                    'Content-Type': file.contentType,
+                    'Content-Disposition': `attachment; filename="${file.filename}"`,
+                },
+            });
+        }
+
+        let query: TranscriptQuery;
+        try {
+            query = parseTranscriptQuery(request.nextUrl.searchParams);
+        } catch (error: any) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+
+        const page = await getTranscriptPage(podcast.id, query);
+
+        return NextResponse.json(toTranscriptResponse(podcast.id, page));
 
     } catch (error: any) {
         console.error('Error getting public transcript:', error);
@@ -0,0 +1,115 @@
+/**
+ * GET /api/series/[id] - Get a series, its progress and its episodes in order
+ * DELETE /api/series/[id] - Delete a series with all of its episodes
+ *
+ * Both handlers respond 404 for series owned by another user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSeries, getSeriesEpisodes, deletePodcast } from '@/lib/db';
+import { deleteAudio, resolveAudioUrl } from '@/lib/storage';
+import { deleteAudioCheckpoint } from '@/lib/checkpoints';
+import { cancelPodcastJobs } from '@/lib/jobs';
+import { getSeriesProgress } from '@/lib/series';
+import { getCurrentUserId } from '@/lib/auth';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const series = await getUserSeries(params.id, userId);
+
+        if (!series) {
+            return NextResponse.json(
+                { error: 'Series not found' },
+                { status: 404 }
+            );
+        }
+
+        const episodes = await getSeriesEpisodes(series.id);
+        const progress = getSeriesProgress(episodes);
+
+        return NextResponse.json({
+            id: series.id,
+            title: series.title,
+            author: series.author,
+            source_url: series.sourceUrl,
+            episode_count: series.episodeCount,
+            status: progress.status,
+            completed_episodes: progress.completedEpisodes,
+            percent: progress.percent,
+            episodes: await Promise.all(episodes.map(async e => ({
+                id: e.id,
+                title: e.title,
+                episode_number: e.episodeNumber,
+                series_id: e.seriesId,
+                audio_url: await resolveAudioUrl(e),
+                audio_duration_seconds: e.audioDurationSeconds?.toString(),
+                status: e.status,
+                progress: e.progress,
+                voice_style: e.voiceStyle,
+                created_at: e.createdAt,
+            }))),
+            created_at: series.createdAt,
+        });
+
+    } catch (error: any) {
+        console.error('Error getting series:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const series = await getUserSeries(params.id, userId);
+
+        if (!series) {
+            return NextResponse.json(
+                { error: 'Series not found' },
+                { status: 404 }
+            );
+        }
+
+        // Deleting the last episode deletes the series record too
+        for (const episode of await getSeriesEpisodes(series.id)) {
+            await cancelPodcastJobs(episode.id);
+
+            try {
+                await deleteAudio(episode.id);
+            } catch (e) {
+                console.error('Failed to delete audio from storage:', e);
+            }
+
+            await deleteAudioCheckpoint(episode.id);
+            await deletePodcast(episode.id);
+        }
+
+        return new NextResponse(null, { status: 204 });
+
+    } catch (error: any) {
+        console.error('Error deleting series:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
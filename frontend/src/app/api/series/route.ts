@@ -0,0 +1,43 @@
+/**
+ * GET /api/series - List the user's series with their progress
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSeriesByUser, getSeriesEpisodes } from '@/lib/db';
+import { getSeriesProgress } from '@/lib/series';
+import { getCurrentUserId } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getCurrentUserId(request);
+
+        if (!userId) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const allSeries = await getSeriesByUser(userId);
+
+        return NextResponse.json({
+            series: await Promise.all(allSeries.map(async s => {
+                const progress = getSeriesProgress(await getSeriesEpisodes(s.id));
+                return {
+                    id: s.id,
+                    title: s.title,
+                    author: s.author,
+                    episode_count: s.episodeCount,
+                    status: progress.status,
+                    completed_episodes: progress.completedEpisodes,
+                    percent: progress.percent,
+                    created_at: s.createdAt,
+                };
+            })),
+        });
+
+    } catch (error: any) {
+        console.error('Error listing series:', error);
+        return NextResponse.json(
+            { error: error.message || 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,13 +1,16 @@
 import type { Metadata } from 'next';
+import { ClerkProvider } from '@clerk/nextjs';
+import { getAuthProviderName } from '@/lib/auth';
+import { PRODUCT_NAME } from '@/lib/product';
 import './globals.css';
 
 export const metadata: Metadata = {
-    title: 'Read-It-Aloud | Listen to any article',
+    title: `${PRODUCT_NAME} | Listen to any article`,
     description: 'Transform articles, blog posts, and Twitter threads into professionally narrated audio. Paste a URL and listen.',
     keywords: ['podcast', 'text to speech', 'AI', 'article reader', 'audio', 'twitter threads'],
-    authors: [{ name: 'Read-It-Aloud' }],
+    authors: [{ name: PRODUCT_NAME }],
     openGraph: {
-        title: 'Read-It-Aloud',
+        title: PRODUCT_NAME,
         description: 'Listen to any article or Twitter thread',
         type: 'website',
     },
@@ -18,11 +21,14 @@ export default function RootLayout({
 }: {
     children: React.ReactNode;
 }) {
-    return (
+    const page = (
         <html lang="en">
             <body className="min-h-screen bg-background text-foreground antialiased">
                 {children}
             </body>
         </html>
     );
+
+    // Clerk is only loaded when it is the configured auth provider
+    return getAuthProviderName() === 'clerk' ? <ClerkProvider>{page}</ClerkProvider> : page;
 }
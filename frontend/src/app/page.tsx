@@ -1,13 +1,15 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
-import { Podcast, Transcript, createPodcast, pollPodcastStatus, getTranscript, listPodcasts } from '@/lib/api';
+import { Podcast, Series, Transcript, createPodcast, cancelPodcast, retryPodcast, watchPodcastStatus, getPodcast, getSeries, getTranscript, listPodcasts, listSeries, getFeedUrl, createFeedUrl } from '@/lib/api';
 import { PodcastForm } from '@/components/PodcastForm';
 import { AudioPlayer } from '@/components/AudioPlayer';
 import { TranscriptView } from '@/components/TranscriptView';
 import { StatusDisplay } from '@/components/StatusDisplay';
+import { AuthControls } from '@/components/AuthControls';
 import { useTranscriptSync } from '@/hooks/useTranscriptSync';
-import { Share2, Headphones, Check, Moon, Sun, History, X, Play, ArrowLeft } from 'lucide-react';
+import { PRODUCT_NAME } from '@/lib/product';
+import { Share2, Headphones, Check, Moon, Sun, History, X, Play, ArrowLeft, Rss, Layers, ChevronDown, ChevronRight, SkipForward } from 'lucide-react';
 
 export default function HomePage() {
     const [isLoading, setIsLoading] = useState(false);
@@ -19,8 +21,14 @@ export default function HomePage() {
     const [darkMode, setDarkMode] = useState(false);
     const [showHistory, setShowHistory] = useState(false);
     const [historyPodcasts, setHistoryPodcasts] = useState<Podcast[]>([]);
+    const [historySeries, setHistorySeries] = useState<Series[]>([]);
+    const [expandedSeries, setExpandedSeries] = useState<Series | null>(null);
+    // Series of the podcast being played, for its episode list and progress
+    const [series, setSeries] = useState<Series | null>(null);
+    const [autoPlay, setAutoPlay] = useState(false);
+    const [feedCopied, setFeedCopied] = useState(false);
 
-    const { activeIndex, setActiveIndex } = useTranscriptSync({
+    const { activeIndex, activeWordIndex, setActiveIndex } = useTranscriptSync({
         segments: transcript?.segments || [],
         audioElement,
     });
@@ -37,18 +45,56 @@ export default function HomePage() {
 
     const loadHistory = async () => {
         try {
-            const data = await listPodcasts();
-            setHistoryPodcasts(data.podcasts.filter((p: Podcast) => p.status === 'completed'));
+            const [data, seriesList] = await Promise.all([listPodcasts(), listSeries()]);
+            // Episodes are listed under their series
+            setHistoryPodcasts(data.podcasts.filter((p: Podcast) => p.status === 'completed' && !p.series_id));
+            setHistorySeries(seriesList);
+            setExpandedSeries(null);
             setShowHistory(true);
         } catch (err) {
             console.error('Failed to load history:', err);
         }
     };
 
-    const playFromHistory = async (historyPodcast: Podcast) => {
+    const copyFeedUrl = async (reset = false) => {
+        if (reset && !confirm('Create a new feed URL? Apps subscribed to the current one will stop updating.')) return;
+
+        try {
+            const feedUrl = (!reset && await getFeedUrl()) || await createFeedUrl();
+            await navigator.clipboard.writeText(feedUrl);
+            setFeedCopied(true);
+            setTimeout(() => setFeedCopied(false), 2000);
+        } catch (err) {
+            console.error('Failed to copy feed URL:', err);
+        }
+    };
+
+    const toggleSeries = async (seriesId: string) => {
+        if (expandedSeries?.id === seriesId) {
+            setExpandedSeries(null);
+            return;
+        }
+
+        try {
+            setExpandedSeries(await getSeries(seriesId));
+        } catch (err) {
+            console.error('Failed to load series:', err);
+        }
+    };
+
+    const playFromHistory = async (historyPodcast: Podcast, startPlaying = false) => {
+        setAutoPlay(startPlaying);
         setPodcast(historyPodcast);
+        setTranscript(null);
         setShowHistory(false);
         if (historyPodcast.audio_url) {
+            // Fetch again for an unexpired audio URL - the list may have been open a while
+            try {
+                setPodcast(await getPodcast(historyPodcast.id));
+            } catch (err) {
+                console.error('Failed to refresh podcast:', err);
+            }
+
             try {
                 const transcriptData = await getTranscript(historyPodcast.id);
                 setTranscript(transcriptData);
@@ -58,9 +104,58 @@ export default function HomePage() {
         }
     };
 
+    // Keep the series up to date while later episodes are generated
+    useEffect(() => {
+        const seriesId = podcast?.series_id;
+        if (!seriesId) {
+            setSeries(null);
+            return;
+        }
+
+        let stopped = false;
+        const refresh = async () => {
+            try {
+                const data = await getSeries(seriesId);
+                if (stopped) return;
+                setSeries(data);
+                if (data.status !== 'processing') clearInterval(timer);
+            } catch (err) {
+                console.error('Failed to load series:', err);
+            }
+        };
+        const timer = setInterval(refresh, 15000);
+        refresh();
+
+        return () => {
+            stopped = true;
+            clearInterval(timer);
+        };
+    }, [podcast?.series_id]);
+
+    const nextEpisode = series?.episodes?.find(e => (e.episode_number || 0) > (podcast?.episode_number || 0)) || null;
+
+    // Continuous playback through a series
+    const handleEnded = useCallback(() => {
+        if (nextEpisode?.status === 'completed') {
+            playFromHistory(nextEpisode, true);
+        }
+    }, [nextEpisode]);
+
+    const waitForPodcast = useCallback(async (id: string) => {
+        // Stream status updates (falls back to polling)
+        const completed = await watchPodcastStatus(id, (update) => setPodcast(update));
+
+        // Get transcript when complete
+        const transcriptData = await getTranscript(completed.id);
+        setTranscript(transcriptData);
+    }, []);
+
     const handleSubmit = useCallback(async (data: {
         source_url?: string;
         source_text?: string;
+        file?: File;
+        chapter?: number;
+        skip_references?: boolean;
         duration_type: string;
         voice_style?: string;
     }) => {
@@ -74,18 +169,40 @@ export default function HomePage() {
             const newPodcast = await createPodcast(data);
             setPodcast(newPodcast);
 
-            // Poll for status updates
-            const completed = await pollPodcastStatus(newPodcast.id, (update) => setPodcast(update));
+            await waitForPodcast(newPodcast.id);
+        } catch (err: any) {
+            setError(err.message || 'Failed to generate podcast');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [waitForPodcast]);
+
+    const handleRetry = useCallback(async () => {
+        if (!podcast) return;
+
+        setIsLoading(true);
+        setError(null);
 
-            // Get transcript when complete
-            const transcriptData = await getTranscript(completed.id);
-            setTranscript(transcriptData);
+        try {
+            await retryPodcast(podcast.id);
+            await waitForPodcast(podcast.id);
         } catch (err: any) {
             setError(err.message || 'Failed to generate podcast');
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [podcast, waitForPodcast]);
+
+    const handleCancel = useCallback(async () => {
+        if (!podcast) return;
+
+        try {
+            // The status watcher picks up the cancelled state and stops loading
+            await cancelPodcast(podcast.id);
+        } catch (err: any) {
+            setError(err.message || 'Failed to cancel podcast');
+        }
+    }, [podcast]);
 
     const handleSegmentClick = useCallback((segment: { start_time: number }) => {
         if (audioElement) {
@@ -115,6 +232,7 @@ export default function HomePage() {
     };
 
     const resetToForm = () => {
+        setAutoPlay(false);
         setPodcast(null);
         setTranscript(null);
         setError(null);
@@ -160,7 +278,7 @@ export default function HomePage() {
                     <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
                         <Headphones size={20} strokeWidth={2.5} />
                         <span style={{ fontSize: '15px', fontWeight: 600, letterSpacing: '-0.3px' }}>
-                            Read-It-Aloud
+                            {PRODUCT_NAME}
                         </span>
                     </div>
                     <div style={{ display: 'flex', gap: '4px' }}>
@@ -193,6 +311,7 @@ export default function HomePage() {
                         >
                             {darkMode ? <Sun size={18} /> : <Moon size={18} />}
                         </button>
+                        <AuthControls darkMode={darkMode} />
                     </div>
                 </div>
             </header>
@@ -227,12 +346,104 @@ export default function HomePage() {
                             borderBottom: `1px solid ${colors.border}`,
                         }}>
                             <span style={{ fontSize: '15px', fontWeight: 600 }}>History</span>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginLeft: 'auto', marginRight: '8px' }}>
+                                <button
+                                    onClick={() => copyFeedUrl()}
+                                    title="Subscribe to your podcasts in any podcast app"
+                                    style={{
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        gap: '6px',
+                                        padding: '6px 10px',
+                                        background: feedCopied ? colors.success : 'transparent',
+                                        color: feedCopied ? '#fff' : colors.textSecondary,
+                                        border: `1px solid ${feedCopied ? colors.success : colors.border}`,
+                                        borderRadius: '8px',
+                                        fontSize: '12px',
+                                        cursor: 'pointer',
+                                    }}
+                                >
+                                    {feedCopied ? <Check size={12} /> : <Rss size={12} />}
+                                    {feedCopied ? 'Copied!' : 'Copy feed URL'}
+                                </button>
+                                <button
+                                    onClick={() => copyFeedUrl(true)}
+                                    title="Revoke the current feed URL and copy a new one"
+                                    style={{ background: 'none', border: 'none', cursor: 'pointer', color: colors.textSecondary, fontSize: '12px', padding: '4px' }}
+                                >
+                                    Reset
+                                </button>
+                            </div>
                             <button onClick={() => setShowHistory(false)} style={{ background: 'none', border: 'none', cursor: 'pointer', color: colors.textSecondary, padding: '4px' }}>
                                 <X size={18} />
                             </button>
                         </div>
                         <div style={{ overflowY: 'auto', maxHeight: 'calc(70vh - 65px)' }}>
-                            {historyPodcasts.length === 0 ? (
+                            {historySeries.map((s) => (
+                                <div key={s.id}>
+                                    <div
+                                        onClick={() => toggleSeries(s.id)}
+                                        style={{
+                                            padding: '16px 24px',
+                                            borderBottom: `1px solid ${colors.border}`,
+                                            cursor: 'pointer',
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            gap: '14px',
+                                            transition: 'background 0.15s',
+                                        }}
+                                    >
+                                        <div style={{
+                                            width: '40px',
+                                            height: '40px',
+                                            borderRadius: '10px',
+                                            background: colors.accent,
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            justifyContent: 'center',
+                                            flexShrink: 0,
+                                        }}>
+                                            <Layers size={16} color={colors.accentText} />
+                                        </div>
+                                        <div style={{ flex: 1, minWidth: 0 }}>
+                                            <div style={{ fontSize: '14px', fontWeight: 500, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                                {s.title || 'Untitled'}
+                                            </div>
+                                            <div style={{ fontSize: '12px', color: colors.textSecondary, marginTop: '2px' }}>
+                                                {s.completed_episodes}/{s.episode_count} episodes
+                                                {s.status === 'processing' ? ` · ${s.percent}%` : s.status !== 'completed' ? ` · ${s.status}` : ''}
+                                            </div>
+                                        </div>
+                                        {expandedSeries?.id === s.id ? <ChevronDown size={16} color={colors.textSecondary} /> : <ChevronRight size={16} color={colors.textSecondary} />}
+                                    </div>
+                                    {expandedSeries?.id === s.id && expandedSeries.episodes?.map((e) => (
+                                        <div
+                                            key={e.id}
+                                            onClick={() => e.status === 'completed' && playFromHistory(e)}
+                                            style={{
+                                                padding: '10px 24px 10px 78px',
+                                                borderBottom: `1px solid ${colors.border}`,
+                                                cursor: e.status === 'completed' ? 'pointer' : 'default',
+                                                display: 'flex',
+                                                justifyContent: 'space-between',
+                                                gap: '12px',
+                                                fontSize: '13px',
+                                                color: e.status === 'completed' ? colors.text : colors.textSecondary,
+                                            }}
+                                        >
+                                            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                                {e.title.startsWith(`${s.title}: `) ? e.title.slice(s.title.length + 2) : e.title}
+                                            </span>
+                                            <span style={{ color: colors.textSecondary, flexShrink: 0 }}>
+                                                {e.status === 'completed'
+                                                    ? (e.audio_duration_seconds ? `${Math.round(parseFloat(e.audio_duration_seconds) / 60)} min` : '')
+                                                    : e.status.replace('_', ' ')}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                            {historyPodcasts.length === 0 && historySeries.length === 0 ? (
                                 <div style={{ padding: '48px 24px', textAlign: 'center', color: colors.textSecondary, fontSize: '14px' }}>
                                     No podcasts yet
                                 </div>
@@ -307,7 +518,12 @@ export default function HomePage() {
                         )}
 
                         {podcast && podcast.status !== 'completed' && (
-                            <StatusDisplay podcast={podcast} darkMode={darkMode} />
+                            <StatusDisplay
+                                podcast={podcast}
+                                darkMode={darkMode}
+                                onRetry={isLoading ? undefined : handleRetry}
+                                onCancel={handleCancel}
+                            />
                         )}
                     </div>
                 ) : (
@@ -338,9 +554,44 @@ export default function HomePage() {
                                 {podcast.audio_duration_seconds && `${Math.round(parseFloat(podcast.audio_duration_seconds) / 60)} min`}
                                 {podcast.voice_style && ` · ${podcast.voice_style.replace('_', ' ')}`}
                             </div>
+                            {series && podcast.episode_number && (
+                                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '6px', fontSize: '12px', color: colors.textSecondary, marginTop: '6px' }}>
+                                    <Layers size={12} />
+                                    Episode {podcast.episode_number} of {series.episode_count}
+                                    {series.status === 'processing' && ` · ${series.completed_episodes} ready (${series.percent}%)`}
+                                </div>
+                            )}
                         </div>
 
-                        <AudioPlayer audioUrl={podcast.audio_url} onAudioRef={setAudioElement} onTimeUpdate={handleTimeUpdate} darkMode={darkMode} />
+                        <AudioPlayer audioUrl={podcast.audio_url} title={podcast.title} transcriptUrl={transcript ? `/api/podcasts/${podcast.id}/transcript` : undefined} onAudioRef={setAudioElement} onTimeUpdate={handleTimeUpdate} onEnded={handleEnded} autoPlay={autoPlay} darkMode={darkMode} />
+
+                        {nextEpisode && (
+                            <button
+                                onClick={() => playFromHistory(nextEpisode, true)}
+                                disabled={nextEpisode.status !== 'completed'}
+                                style={{
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '8px',
+                                    padding: '12px 16px',
+                                    background: 'transparent',
+                                    color: nextEpisode.status === 'completed' ? colors.text : colors.textSecondary,
+                                    border: `1px solid ${colors.border}`,
+                                    borderRadius: '10px',
+                                    fontSize: '13px',
+                                    textAlign: 'left',
+                                    cursor: nextEpisode.status === 'completed' ? 'pointer' : 'default',
+                                }}
+                            >
+                                <SkipForward size={14} style={{ flexShrink: 0 }} />
+                                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                    Up next: {nextEpisode.title}
+                                </span>
+                                {nextEpisode.status !== 'completed' && (
+                                    <span style={{ marginLeft: 'auto', flexShrink: 0, color: colors.textSecondary }}>Generating...</span>
+                                )}
+                            </button>
+                        )}
 
                         {shareUrl && (
                             <div style={{ display: 'flex', justifyContent: 'center' }}>
@@ -368,7 +619,7 @@ export default function HomePage() {
                         )}
 
                         {transcript && (
-                            <TranscriptView segments={transcript.segments} activeIndex={activeIndex} onSegmentClick={handleSegmentClick} darkMode={darkMode} />
+                            <TranscriptView segments={transcript.segments} activeIndex={activeIndex} activeWordIndex={activeWordIndex} onSegmentClick={handleSegmentClick} darkMode={darkMode} />
                         )}
                     </div>
                 )}
@@ -383,7 +634,7 @@ export default function HomePage() {
                 fontSize: '12px',
                 color: colors.textSecondary,
             }}>
-                © 2025 Read-It-Aloud
+                © 2025 {PRODUCT_NAME}
             </footer>
         </div>
     );
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { Podcast, Transcript, getPublicTranscript } from '@/lib/api';
+import { PRODUCT_NAME } from '@/lib/product';
 import { AudioPlayer } from '@/components/AudioPlayer';
 import { TranscriptView } from '@/components/TranscriptView';
 import { useTranscriptSync } from '@/hooks/useTranscriptSync';
@@ -25,7 +26,7 @@ export function PublicPodcastPlayer({ podcast, shareSlug }: PublicPodcastPlayerP
             .catch(console.error);
     }, [shareSlug]);
 
-    const { activeIndex } = useTranscriptSync({
+    const { activeIndex, activeWordIndex } = useTranscriptSync({
         segments: transcript?.segments || [],
         audioElement,
     });
@@ -46,6 +47,11 @@ export function PublicPodcastPlayer({ podcast, shareSlug }: PublicPodcastPlayerP
             {/* Title */}
             <div className="text-center">
                 <h2 className="text-2xl font-semibold">{podcast.title}</h2>
+                {(podcast.author || podcast.site_name) && (
+                    <p className="mt-1 text-sm text-muted">
+                        {[podcast.author && `By ${podcast.author}`, podcast.site_name].filter(Boolean).join(' · ')}
+                    </p>
+                )}
                 <div className="flex items-center justify-center gap-4 mt-2 text-sm text-muted">
                     <span className="capitalize">{podcast.tone?.replace('_', ' ')}</span>
                     <span>•</span>
@@ -56,6 +62,8 @@ export function PublicPodcastPlayer({ podcast, shareSlug }: PublicPodcastPlayerP
             {/* Audio Player */}
             <AudioPlayer
                 audioUrl={podcast.audio_url}
+                title={podcast.title}
+                transcriptUrl={`/api/public/${shareSlug}/transcript`}
                 onAudioRef={setAudioElement}
             />
 
@@ -64,13 +72,14 @@ export function PublicPodcastPlayer({ podcast, shareSlug }: PublicPodcastPlayerP
                 <TranscriptView
                     segments={transcript.segments}
                     activeIndex={activeIndex}
+                    activeWordIndex={activeWordIndex}
                     onSegmentClick={handleSegmentClick}
                 />
             )}
 
             {/* Footer */}
             <div className="text-center text-sm text-muted">
-                <p>Created with <a href="/" className="underline hover:text-white">Read-It-Out AI</a></p>
+                <p>Created with <a href="/" className="underline hover:text-white">{PRODUCT_NAME}</a></p>
             </div>
         </div>
     );
@@ -1,6 +1,11 @@
-import { getPublicPodcast } from '@/lib/api';
+import { getPodcastByShareSlug } from '@/lib/db';
+import { Podcast } from '@/lib/api';
+import { PRODUCT_NAME } from '@/lib/product';
 import { PublicPodcastPlayer } from './PublicPodcastPlayer';
 
+// Sharing can be toggled at any time, so never serve a cached page
+export const dynamic = 'force-dynamic';
+
 interface SharePageProps {
     params: { slug: string };
 }
@@ -10,24 +15,9 @@ interface SharePageProps {
  */
 export default async function SharePage({ params }: SharePageProps) {
     const { slug } = params;
+    const record = await getPodcastByShareSlug(slug);
 
-    try {
-        const podcast = await getPublicPodcast(slug);
-
-        return (
-            <main className="min-h-screen">
-                <header className="border-b border-border">
-                    <div className="max-w-4xl mx-auto px-4 py-4">
-                        <h1 className="text-xl font-bold">Read-It-Out AI</h1>
-                    </div>
-                </header>
-
-                <div className="max-w-4xl mx-auto px-4 py-8">
-                    <PublicPodcastPlayer podcast={podcast} shareSlug={slug} />
-                </div>
-            </main>
-        );
-    } catch (error) {
+    if (!record) {
         return (
             <main className="min-h-screen flex items-center justify-center">
                 <div className="text-center">
@@ -37,4 +27,38 @@ export default async function SharePage({ params }: SharePageProps) {
             </main>
         );
     }
+
+    // Only pass the fields the public API exposes to the client component
+    const podcast: Podcast = {
+        id: record.id,
+        user_id: '',
+        title: record.title,
+        tone: record.tone,
+        voice_style: record.voiceStyle,
+        author: record.author,
+        canonical_url: record.canonicalUrl,
+        published_at: record.publishedAt,
+        site_name: record.siteName,
+        image_url: record.imageUrl,
+        audio_url: record.audioUrl,
+        audio_duration_seconds: record.audioDurationSeconds?.toString(),
+        status: record.status,
+        share_slug: record.shareSlug,
+        created_at: record.createdAt,
+        updated_at: record.updatedAt,
+    };
+
+    return (
+        <main className="min-h-screen">
+            <header className="border-b border-border">
+                <div className="max-w-4xl mx-auto px-4 py-4">
+                    <h1 className="text-xl font-bold">{PRODUCT_NAME}</h1>
+                </div>
+            </header>
+
+            <div className="max-w-4xl mx-auto px-4 py-8">
+                <PublicPodcastPlayer podcast={podcast} shareSlug={slug} />
+            </div>
+        </main>
+    );
 }
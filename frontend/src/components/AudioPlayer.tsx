@@ -5,14 +5,23 @@ import { Play, Pause, Volume2, VolumeX, Download, RotateCcw, RotateCw } from 'lu
 
 interface AudioPlayerProps {
     audioUrl: string;
+    /** Transcript endpoint - adds caption/text downloads and a WebVTT text track */
+    transcriptUrl?: string;
+    /** Names the downloaded file */
+    title?: string;
     onAudioRef?: (audio: HTMLAudioElement) => void;
     onTimeUpdate?: (currentTime: number) => void;
+    /** Called when playback reaches the end (series: move on to the next episode) */
+    onEnded?: () => void;
+    /** Start playing as soon as the audio loads */
+    autoPlay?: boolean;
     darkMode?: boolean;
 }
 
 const SPEED_OPTIONS = [1, 1.25, 1.5, 1.75, 2];
+const TRANSCRIPT_DOWNLOADS = ['srt', 'vtt', 'txt', 'md'];
 
-export function AudioPlayer({ audioUrl, onAudioRef, onTimeUpdate, darkMode = false }: AudioPlayerProps) {
+export function AudioPlayer({ audioUrl, transcriptUrl, title, onAudioRef, onTimeUpdate, onEnded, autoPlay = false, darkMode = false }: AudioPlayerProps) {
     const audioRef = useRef<HTMLAudioElement>(null);
     const [isPlaying, setIsPlaying] = useState(false);
     const [currentTime, setCurrentTime] = useState(0);
@@ -41,21 +50,28 @@ export function AudioPlayer({ audioUrl, onAudioRef, onTimeUpdate, darkMode = fal
 
         const handleTimeUpdate = () => { setCurrentTime(audio.currentTime); onTimeUpdate?.(audio.currentTime); };
         const handleLoadedMetadata = () => setDuration(audio.duration);
-        const handleEnded = () => setIsPlaying(false);
+        const handleEnded = () => { setIsPlaying(false); onEnded?.(); };
         const handleSeeked = () => onTimeUpdate?.(audio.currentTime);
+        // Autoplay starts without a click
+        const handlePlay = () => setIsPlaying(true);
+        const handlePause = () => setIsPlaying(false);
 
         audio.addEventListener('timeupdate', handleTimeUpdate);
         audio.addEventListener('loadedmetadata', handleLoadedMetadata);
         audio.addEventListener('ended', handleEnded);
         audio.addEventListener('seeked', handleSeeked);
+        audio.addEventListener('play', handlePlay);
+        audio.addEventListener('pause', handlePause);
 
         return () => {
             audio.removeEventListener('timeupdate', handleTimeUpdate);
             audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
             audio.removeEventListener('ended', handleEnded);
             audio.removeEventListener('seeked', handleSeeked);
+            audio.removeEventListener('play', handlePlay);
+            audio.removeEventListener('pause', handlePause);
         };
-    }, [onTimeUpdate]);
+    }, [onTimeUpdate, onEnded]);
 
     const togglePlay = () => {
         const audio = audioRef.current;
@@ -97,12 +113,19 @@ export function AudioPlayer({ audioUrl, onAudioRef, onTimeUpdate, darkMode = fal
         setIsMuted(!isMuted);
     };
 
+    // Offline (local TTS) episodes may be WAV
+    const downloadBase = title?.replace(/[^\w\s-]+/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'podcast';
+    const downloadName = `${downloadBase}.${/\.wav($|\?)/i.test(audioUrl) ? 'wav' : 'mp3'}`;
     const formatTime = (t: number) => `${Math.floor(t / 60)}:${Math.floor(t % 60).toString().padStart(2, '0')}`;
     const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
 
     return (
         <div style={{ background: colors.bg, border: `1px solid ${colors.border}`, borderRadius: '16px', padding: '20px' }}>
-            <audio ref={audioRef} src={audioUrl} preload="metadata" />
+            <audio ref={audioRef} src={audioUrl} preload="metadata" autoPlay={autoPlay}>
+                {transcriptUrl && (
+                    <track kind="captions" src={`${transcriptUrl}?format=vtt`} srcLang="en" label="Transcript" default />
+                )}
+            </audio>
 
             {/* Progress */}
             <div style={{ marginBottom: '20px' }}>
@@ -174,9 +197,21 @@ export function AudioPlayer({ audioUrl, onAudioRef, onTimeUpdate, darkMode = fal
                     {isMuted ? <VolumeX size={16} /> : <Volume2 size={16} />}
                 </button>
 
-                <a href={audioUrl} download="podcast.mp3" style={{ padding: '6px', color: colors.textSecondary }}>
+                <a href={audioUrl} download={downloadName} style={{ padding: '6px', color: colors.textSecondary }}>
                     <Download size={16} />
                 </a>
+
+                {transcriptUrl && TRANSCRIPT_DOWNLOADS.map(format => (
+                    <a
+                        key={format}
+                        href={`${transcriptUrl}?format=${format}`}
+                        download
+                        title={`Download transcript (.${format})`}
+                        style={{ fontSize: '11px', fontWeight: 600, color: colors.textSecondary, textDecoration: 'none', textTransform: 'uppercase' }}
+                    >
+                        {format}
+                    </a>
+                ))}
             </div>
         </div>
     );
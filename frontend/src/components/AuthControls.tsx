@@ -0,0 +1,50 @@
+'use client';
+
+import { SignedIn, SignedOut, SignInButton, UserButton } from '@clerk/nextjs';
+import { LogIn } from 'lucide-react';
+
+interface AuthControlsProps {
+    darkMode?: boolean;
+}
+
+/**
+ * Sign-in / account button for the header.
+ * Renders nothing with the local development auth provider.
+ */
+export function AuthControls({ darkMode = false }: AuthControlsProps) {
+    if ((process.env.NEXT_PUBLIC_AUTH_PROVIDER || 'clerk') !== 'clerk') return null;
+
+    const colors = {
+        text: darkMode ? '#fafafa' : '#09090b',
+        border: darkMode ? '#27272a' : '#e4e4e7',
+    };
+
+    return (
+        <div style={{ display: 'flex', alignItems: 'center', marginLeft: '4px' }}>
+            <SignedIn>
+                <UserButton afterSignOutUrl="/" />
+            </SignedIn>
+            <SignedOut>
+                <SignInButton mode="modal">
+                    <button
+                        style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '6px',
+                            padding: '6px 12px',
+                            background: 'transparent',
+                            border: `1px solid ${colors.border}`,
+                            borderRadius: '8px',
+                            fontSize: '13px',
+                            fontWeight: 500,
+                            color: colors.text,
+                            cursor: 'pointer',
+                        }}
+                    >
+                        <LogIn size={14} /> Sign in
+                    </button>
+                </SignInButton>
+            </SignedOut>
+        </div>
+    );
+}
@@ -1,12 +1,16 @@
 'use client';
 
 import { useState } from 'react';
-import { Link, FileText, Loader2, Globe, Twitter } from 'lucide-react';
+import { Link, FileText, Loader2, Globe, Twitter, Upload } from 'lucide-react';
+import { getDocumentChapters, DocumentChapter } from '@/lib/api';
 
 interface PodcastFormProps {
     onSubmit: (data: {
         source_url?: string;
         source_text?: string;
+        file?: File;
+        chapter?: number;
+        skip_references?: boolean;
         duration_type: string;
         voice_style?: string;
     }) => Promise<void>;
@@ -21,6 +25,12 @@ const DURATION_OPTIONS = [
     { value: 'full', label: 'Full' },
 ];
 
+const FILE_ACCEPT = [
+    '.pdf', '.epub', '.docx', '.md', '.markdown', '.html', '.htm',
+    'application/pdf', 'application/epub+zip', 'text/markdown', 'text/html',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+].join(',');
+
 const VOICE_OPTIONS = [
     { value: 'narrator', label: 'Narrator' },
     { value: 'storyteller', label: 'Storyteller' },
@@ -28,12 +38,19 @@ const VOICE_OPTIONS = [
     { value: 'podcast_host', label: 'Host' },
     { value: 'calm', label: 'Calm' },
     { value: 'confident', label: 'Confident' },
+    { value: 'local', label: 'Offline' },
 ];
 
 export function PodcastForm({ onSubmit, isLoading, darkMode = false }: PodcastFormProps) {
-    const [inputMode, setInputMode] = useState<'url' | 'text'>('url');
+    const [inputMode, setInputMode] = useState<'url' | 'text' | 'file'>('url');
     const [sourceUrl, setSourceUrl] = useState('');
     const [sourceText, setSourceText] = useState('');
+    const [sourceFile, setSourceFile] = useState<File | null>(null);
+    // EPUB chapters, null until a book is chosen; '' narrates the whole book
+    const [chapters, setChapters] = useState<DocumentChapter[] | null>(null);
+    const [chapter, setChapter] = useState('');
+    const [isLoadingChapters, setIsLoadingChapters] = useState(false);
+    const [skipReferences, setSkipReferences] = useState(true);
     const [durationType, setDurationType] = useState('5min');
     const [voiceStyle, setVoiceStyle] = useState<string | undefined>(undefined);
     const [error, setError] = useState<string | null>(null);
@@ -48,6 +65,24 @@ export function PodcastForm({ onSubmit, isLoading, darkMode = false }: PodcastFo
         accentText: darkMode ? '#09090b' : '#fafafa',
     };
 
+    const handleFileChange = async (file: File | null) => {
+        setSourceFile(file);
+        setChapters(null);
+        setChapter('');
+        setError(null);
+
+        if (!file || !/\.epub$/i.test(file.name)) return;
+
+        setIsLoadingChapters(true);
+        try {
+            setChapters(await getDocumentChapters(file));
+        } catch (err: any) {
+            setError(err.message || 'Could not read the book');
+        } finally {
+            setIsLoadingChapters(false);
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setError(null);
@@ -60,6 +95,10 @@ export function PodcastForm({ onSubmit, isLoading, darkMode = false }: PodcastFo
             setError('Please enter some text');
             return;
         }
+        if (inputMode === 'file' && !sourceFile) {
+            setError('Please choose a file');
+            return;
+        }
 
         if (inputMode === 'url') {
             try { new URL(sourceUrl.trim()); }
@@ -70,6 +109,9 @@ export function PodcastForm({ onSubmit, isLoading, darkMode = false }: PodcastFo
             await onSubmit({
                 source_url: inputMode === 'url' ? sourceUrl.trim() : undefined,
                 source_text: inputMode === 'text' ? sourceText.trim() : undefined,
+                file: inputMode === 'file' && sourceFile ? sourceFile : undefined,
+                chapter: inputMode === 'file' && chapter !== '' ? Number(chapter) : undefined,
+                skip_references: inputMode !== 'text' ? skipReferences : undefined,
                 duration_type: durationType,
                 voice_style: voiceStyle,
             });
@@ -82,11 +124,11 @@ export function PodcastForm({ onSubmit, isLoading, darkMode = false }: PodcastFo
         <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '20px' }}>
             {/* Tab Toggle */}
             <div style={{ display: 'flex', gap: '4px', background: colors.surface, padding: '4px', borderRadius: '10px', border: `1px solid ${colors.border}` }}>
-                {[{ key: 'url', label: 'URL', icon: Link }, { key: 'text', label: 'Text', icon: FileText }].map(({ key, label, icon: Icon }) => (
+                {[{ key: 'url', label: 'URL', icon: Link }, { key: 'text', label: 'Text', icon: FileText }, { key: 'file', label: 'File', icon: Upload }].map(({ key, label, icon: Icon }) => (
                     <button
                         key={key}
                         type="button"
-                        onClick={() => setInputMode(key as 'url' | 'text')}
+                        onClick={() => setInputMode(key as 'url' | 'text' | 'file')}
                         style={{
                             flex: 1,
                             display: 'flex',
@@ -173,10 +215,103 @@ export function PodcastForm({ onSubmit, isLoading, darkMode = false }: PodcastFo
                         }}>
                             <FileText size={11} /> X Articles
                         </span>
+                        <span style={{
+                            display: 'inline-flex',
+                            alignItems: 'center',
+                            gap: '4px',
+                            padding: '4px 10px',
+                            background: darkMode ? 'rgba(234,88,12,0.15)' : '#fff7ed',
+                            borderRadius: '100px',
+                            fontSize: '11px',
+                            fontWeight: 500,
+                            color: darkMode ? '#fdba74' : '#ea580c',
+                        }}>
+                            <FileText size={11} /> PDFs
+                        </span>
                     </div>
                 </div>
             )}
 
+            {/* File Input */}
+            {inputMode === 'file' && (
+                <label style={{
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    gap: '8px',
+                    padding: '24px 16px',
+                    border: `1px dashed ${colors.border}`,
+                    borderRadius: '10px',
+                    background: colors.bg,
+                    color: colors.textSecondary,
+                    fontSize: '13px',
+                    cursor: isLoading ? 'not-allowed' : 'pointer',
+                }}>
+                    <Upload size={18} />
+                    <span style={{ color: sourceFile ? colors.text : colors.textSecondary, fontWeight: sourceFile ? 500 : 400 }}>
+                        {sourceFile ? sourceFile.name : 'Choose a file'}
+                    </span>
+                    <span style={{ fontSize: '11px' }}>PDF, EPUB, DOCX, Markdown or saved HTML</span>
+                    <input
+                        type="file"
+                        accept={FILE_ACCEPT}
+                        onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                        disabled={isLoading}
+                        style={{ display: 'none' }}
+                    />
+                </label>
+            )}
+
+            {/* EPUB: one chapter per episode */}
+            {inputMode === 'file' && (isLoadingChapters || chapters) && (
+                <div>
+                    <label style={{ display: 'block', fontSize: '13px', fontWeight: 500, color: colors.textSecondary, marginBottom: '8px' }}>
+                        Chapter
+                    </label>
+                    {isLoadingChapters ? (
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', color: colors.textSecondary }}>
+                            <Loader2 className="animate-spin" size={14} /> Reading chapters...
+                        </div>
+                    ) : (
+                        <select
+                            value={chapter}
+                            onChange={(e) => setChapter(e.target.value)}
+                            disabled={isLoading}
+                            style={{
+                                width: '100%',
+                                padding: '12px 14px',
+                                fontSize: '14px',
+                                border: `1px solid ${colors.border}`,
+                                borderRadius: '10px',
+                                background: colors.bg,
+                                color: colors.text,
+                                outline: 'none',
+                            }}
+                        >
+                            <option value="">Whole book</option>
+                            {chapters!.map((ch) => (
+                                <option key={ch.index} value={ch.index}>
+                                    {ch.index + 1}. {ch.title} ({ch.word_count.toLocaleString()} words)
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                </div>
+            )}
+
+            {/* Papers: leave out the reference list */}
+            {inputMode !== 'text' && (
+                <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', color: colors.textSecondary, cursor: 'pointer' }}>
+                    <input
+                        type="checkbox"
+                        checked={skipReferences}
+                        onChange={(e) => setSkipReferences(e.target.checked)}
+                        disabled={isLoading}
+                    />
+                    Skip references section (PDFs)
+                </label>
+            )}
+
             {/* Text Input */}
             {inputMode === 'text' && (
                 <textarea
@@ -278,7 +413,7 @@ export function PodcastForm({ onSubmit, isLoading, darkMode = false }: PodcastFo
             {/* Submit */}
             <button
                 type="submit"
-                disabled={isLoading}
+                disabled={isLoading || isLoadingChapters}
                 style={{
                     width: '100%',
                     display: 'flex',
@@ -1,11 +1,13 @@
 'use client';
 
 import { Podcast } from '@/lib/api';
-import { Loader2, CheckCircle, AlertCircle, FileAudio, Sparkles, Upload } from 'lucide-react';
+import { Loader2, CheckCircle, AlertCircle, FileAudio, Sparkles, Upload, RotateCcw, XCircle } from 'lucide-react';
 
 interface StatusDisplayProps {
     podcast: Podcast | null;
     darkMode?: boolean;
+    onRetry?: () => void;
+    onCancel?: () => void;
 }
 
 const STATUS_CONFIG: Record<string, { icon: React.ReactNode; label: string }> = {
@@ -16,9 +18,12 @@ const STATUS_CONFIG: Record<string, { icon: React.ReactNode; label: string }> =
     uploading: { icon: <Upload size={18} />, label: 'Almost done...' },
     completed: { icon: <CheckCircle size={18} />, label: 'Ready!' },
     failed: { icon: <AlertCircle size={18} />, label: 'Failed' },
+    cancelled: { icon: <XCircle size={18} />, label: 'Cancelled' },
 };
 
-export function StatusDisplay({ podcast, darkMode = false }: StatusDisplayProps) {
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+export function StatusDisplay({ podcast, darkMode = false, onRetry, onCancel }: StatusDisplayProps) {
     if (!podcast) return null;
 
     const config = STATUS_CONFIG[podcast.status] || STATUS_CONFIG.pending;
@@ -33,7 +38,10 @@ export function StatusDisplay({ podcast, darkMode = false }: StatusDisplayProps)
 
     const steps = ['pending', 'extracting', 'processing', 'generating_audio', 'uploading', 'completed'];
     const currentStep = steps.indexOf(podcast.status);
-    const progress = Math.max(0, ((currentStep + 1) / steps.length) * 100);
+    // Prefer live pipeline progress; fall back to the coarse status step
+    const progress = podcast.progress
+        ? Math.max(2, podcast.progress.percent)
+        : Math.max(0, ((currentStep + 1) / steps.length) * 100);
 
     return (
         <div style={{
@@ -59,10 +67,15 @@ export function StatusDisplay({ podcast, darkMode = false }: StatusDisplayProps)
                             {podcast.title}
                         </div>
                     )}
+                    {podcast.progress && !FINISHED_STATUSES.includes(podcast.status) && (
+                        <div style={{ fontSize: '12px', color: colors.textSecondary, marginTop: '2px' }}>
+                            {podcast.progress.message} · {podcast.progress.percent}%
+                        </div>
+                    )}
                 </div>
             </div>
 
-            {podcast.status !== 'completed' && podcast.status !== 'failed' && (
+            {!FINISHED_STATUSES.includes(podcast.status) && (
                 <div style={{ height: '3px', background: colors.track, borderRadius: '2px', overflow: 'hidden' }}>
                     <div style={{
                         width: `${progress}%`,
@@ -85,6 +98,50 @@ export function StatusDisplay({ podcast, darkMode = false }: StatusDisplayProps)
                     {podcast.error_message}
                 </div>
             )}
+
+            {!FINISHED_STATUSES.includes(podcast.status) && onCancel && (
+                <button
+                    onClick={onCancel}
+                    style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '6px',
+                        marginTop: '16px',
+                        padding: '8px 14px',
+                        background: 'transparent',
+                        border: `1px solid ${colors.border}`,
+                        borderRadius: '8px',
+                        fontSize: '13px',
+                        fontWeight: 500,
+                        color: colors.textSecondary,
+                        cursor: 'pointer',
+                    }}
+                >
+                    <XCircle size={14} /> Cancel
+                </button>
+            )}
+
+            {(podcast.status === 'failed' || podcast.status === 'cancelled') && onRetry && (
+                <button
+                    onClick={onRetry}
+                    style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '6px',
+                        marginTop: '12px',
+                        padding: '8px 14px',
+                        background: 'transparent',
+                        border: `1px solid ${colors.border}`,
+                        borderRadius: '8px',
+                        fontSize: '13px',
+                        fontWeight: 500,
+                        color: colors.text,
+                        cursor: 'pointer',
+                    }}
+                >
+                    <RotateCcw size={14} /> Retry
+                </button>
+            )}
         </div>
     );
 }
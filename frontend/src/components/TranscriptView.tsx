@@ -1,17 +1,76 @@
 'use client';
 
+import { Fragment, useEffect, useRef, useState } from 'react';
 import { TranscriptSegment } from '@/lib/api';
 
 interface TranscriptViewProps {
     segments: TranscriptSegment[];
     activeIndex: number;
+    /** Word being spoken in the active segment - enables word highlighting */
+    activeWordIndex?: number;
     onSegmentClick?: (segment: TranscriptSegment) => void;
     darkMode?: boolean;
 }
 
-export function TranscriptView({ segments, activeIndex, onSegmentClick, darkMode = false }: TranscriptViewProps) {
+// Segments render in blocks and only blocks near the visible area are mounted,
+// so long-form transcripts don't put thousands of spans in the DOM
+const BLOCK_SIZE = 50;
+const VIEWPORT_HEIGHT = 240;
+const OVERSCAN_PX = 480;
+const ESTIMATED_BLOCK_HEIGHT = 600;
+
+export function TranscriptView({ segments, activeIndex, activeWordIndex = -1, onSegmentClick, darkMode = false }: TranscriptViewProps) {
+    const [highlightWords, setHighlightWords] = useState(true);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [, setMeasureCount] = useState(0);
+    const blockHeights = useRef<number[]>([]);
+    const blockElements = useRef(new Map<number, HTMLDivElement>());
+
+    // Forget measurements from a previous transcript
+    useEffect(() => {
+        blockHeights.current = [];
+    }, [segments]);
+
+    // Measure mounted blocks so the spacers around them match the real layout
+    useEffect(() => {
+        let changed = false;
+        blockElements.current.forEach((element, block) => {
+            const height = element.offsetHeight;
+            if (height && blockHeights.current[block] !== height) {
+                blockHeights.current[block] = height;
+                changed = true;
+            }
+        });
+        if (changed) setMeasureCount(count => count + 1);
+    });
+
     if (!segments.length) return null;
 
+    const blockCount = Math.ceil(segments.length / BLOCK_SIZE);
+    const heightOf = (block: number) => blockHeights.current[block] ?? ESTIMATED_BLOCK_HEIGHT;
+
+    // Find the range of blocks overlapping the viewport (plus overscan)
+    let firstBlock = 0;
+    let topSpacer = 0;
+    while (firstBlock < blockCount - 1 && topSpacer + heightOf(firstBlock) < scrollTop - OVERSCAN_PX) {
+        topSpacer += heightOf(firstBlock);
+        firstBlock++;
+    }
+
+    let lastBlock = firstBlock;
+    let renderedBottom = topSpacer + heightOf(firstBlock);
+    while (lastBlock < blockCount - 1 && renderedBottom < scrollTop + VIEWPORT_HEIGHT + OVERSCAN_PX) {
+        lastBlock++;
+        renderedBottom += heightOf(lastBlock);
+    }
+
+    let bottomSpacer = 0;
+    for (let block = lastBlock + 1; block < blockCount; block++) {
+        bottomSpacer += heightOf(block);
+    }
+
+    const hasWordTimings = segments.some(segment => segment.words?.length);
+
     const colors = {
         bg: darkMode ? '#18181b' : '#fafafa',
         border: darkMode ? '#27272a' : '#e4e4e7',
@@ -28,34 +87,90 @@ export function TranscriptView({ segments, activeIndex, onSegmentClick, darkMode
             borderRadius: '16px',
             padding: '20px',
         }}>
-            <h4 style={{ fontSize: '13px', fontWeight: 600, color: colors.heading, marginBottom: '12px' }}>
-                Transcript
-            </h4>
-            <div style={{
-                maxHeight: '240px',
-                overflowY: 'auto',
-                lineHeight: 1.7,
-            }}>
-                {segments.map((segment, index) => (
-                    <span
-                        key={index}
-                        id={`segment-${index}`}
-                        onClick={() => onSegmentClick?.(segment)}
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '12px' }}>
+                <h4 style={{ fontSize: '13px', fontWeight: 600, color: colors.heading }}>
+                    Transcript
+                </h4>
+                {hasWordTimings && (
+                    <button
+                        onClick={() => setHighlightWords(!highlightWords)}
                         style={{
-                            display: 'inline',
-                            padding: '2px 6px',
-                            marginRight: '2px',
-                            borderRadius: '4px',
-                            fontSize: '14px',
+                            padding: '4px 10px',
+                            background: 'transparent',
+                            color: colors.text,
+                            border: `1px solid ${colors.border}`,
+                            borderRadius: '8px',
+                            fontSize: '12px',
                             cursor: 'pointer',
-                            transition: 'all 0.1s',
-                            color: index === activeIndex ? colors.textActive : colors.text,
-                            background: index === activeIndex ? colors.bgActive : 'transparent',
                         }}
                     >
-                        {segment.text}
-                    </span>
+                        {highlightWords ? 'Highlight sentences' : 'Highlight words'}
+                    </button>
+                )}
+            </div>
+            <div
+                onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                style={{
+                    maxHeight: `${VIEWPORT_HEIGHT}px`,
+                    overflowY: 'auto',
+                    lineHeight: 1.7,
+                }}
+            >
+                <div style={{ height: topSpacer }} />
+                {Array.from({ length: lastBlock - firstBlock + 1 }, (_, i) => firstBlock + i).map(block => (
+                    <div
+                        key={block}
+                        ref={(element) => {
+                            if (element) blockElements.current.set(block, element);
+                            else blockElements.current.delete(block);
+                        }}
+                    >
+                        {segments.slice(block * BLOCK_SIZE, (block + 1) * BLOCK_SIZE).map((segment, offset) => {
+                            const index = block * BLOCK_SIZE + offset;
+                            const isActive = index === activeIndex;
+                            // Karaoke mode: the active sentence stays readable and only the spoken word is filled
+                            const karaoke = isActive && highlightWords && !!segment.words?.length;
+
+                            return (
+                                <span
+                                    key={index}
+                                    id={`segment-${index}`}
+                                    onClick={() => onSegmentClick?.(segment)}
+                                    style={{
+                                        display: 'inline',
+                                        padding: '2px 6px',
+                                        marginRight: '2px',
+                                        borderRadius: '4px',
+                                        fontSize: '14px',
+                                        cursor: 'pointer',
+                                        transition: 'all 0.1s',
+                                        color: karaoke ? colors.heading : isActive ? colors.textActive : colors.text,
+                                        background: isActive && !karaoke ? colors.bgActive : 'transparent',
+                                    }}
+                                >
+                                    {karaoke
+                                        ? segment.words!.map((word, wordIndex) => (
+                                            <Fragment key={wordIndex}>
+                                                {wordIndex > 0 && ' '}
+                                                <span
+                                                    style={{
+                                                        borderRadius: '3px',
+                                                        transition: 'all 0.1s',
+                                                        color: wordIndex === activeWordIndex ? colors.textActive : undefined,
+                                                        background: wordIndex === activeWordIndex ? colors.bgActive : 'transparent',
+                                                    }}
+                                                >
+                                                    {word.text}
+                                                </span>
+                                            </Fragment>
+                                        ))
+                                        : segment.text}
+                                </span>
+                            );
+                        })}
+                    </div>
                 ))}
+                <div style={{ height: bottomSpacer }} />
             </div>
         </div>
     );
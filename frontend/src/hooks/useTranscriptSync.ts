@@ -10,20 +10,47 @@ interface UseTranscriptSyncOptions {
 
 interface TranscriptSyncResult {
     activeIndex: number;
+    /** Word being spoken within the active segment (-1 if none or no word timings) */
+    activeWordIndex: number;
     setActiveIndex: (index: number) => void;
     activeSegment: TranscriptSegment | null;
     scrollToActive: () => void;
 }
 
+/**
+ * Last word of a segment that has started by `currentTime`
+ */
+function findActiveWord(segment: TranscriptSegment | undefined, currentTime: number): number {
+    const words = segment?.words;
+    if (!words?.length) return -1;
+
+    let left = 0;
+    let right = words.length - 1;
+    let found = -1;
+
+    while (left <= right) {
+        const mid = Math.floor((left + right) / 2);
+        if (words[mid].start_time <= currentTime) {
+            found = mid;
+            left = mid + 1;
+        } else {
+            right = mid - 1;
+        }
+    }
+
+    return found;
+}
+
 /**
  * Custom hook for syncing transcript highlighting with audio playback.
- * Tracks the current audio time and finds the active sentence.
+ * Tracks the current audio time and finds the active sentence and word.
  */
 export function useTranscriptSync({
     segments,
     audioElement,
 }: UseTranscriptSyncOptions): TranscriptSyncResult {
     const [activeIndex, setActiveIndex] = useState<number>(-1);
+    const [activeWordIndex, setActiveWordIndex] = useState<number>(-1);
 
     // Find active segment based on current time
     const findActiveSegment = useCallback(
@@ -71,6 +98,11 @@ export function useTranscriptSync({
             if (newIndex !== activeIndex) {
                 setActiveIndex(newIndex);
             }
+
+            const newWordIndex = findActiveWord(segments[newIndex], currentTime);
+            if (newWordIndex !== activeWordIndex) {
+                setActiveWordIndex(newWordIndex);
+            }
         };
 
         // Update more frequently for smoother highlighting
@@ -88,11 +120,12 @@ export function useTranscriptSync({
             audioElement.removeEventListener('timeupdate', handleTimeUpdate);
             audioElement.removeEventListener('seeked', handleTimeUpdate);
         };
-    }, [audioElement, activeIndex, findActiveSegment]);
+    }, [audioElement, activeIndex, activeWordIndex, findActiveSegment, segments]);
 
     // Reset on segments change
     useEffect(() => {
         setActiveIndex(-1);
+        setActiveWordIndex(-1);
     }, [segments]);
 
     // Scroll to active segment
@@ -110,6 +143,7 @@ export function useTranscriptSync({
 
     return {
         activeIndex,
+        activeWordIndex,
         setActiveIndex,
         activeSegment: activeIndex >= 0 ? segments[activeIndex] : null,
         scrollToActive,
@@ -0,0 +1,15 @@
+/**
+ * Server startup hook
+ * Starts the background job worker, which first resumes or fails jobs orphaned by the last shutdown,
+ * and revokes public access left on the audio of podcasts that aren't shared
+ */
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        const { startJobWorker } = await import('./lib/jobs');
+        startJobWorker();
+
+        const { syncPendingAudioAccess } = await import('./lib/storage');
+        syncPendingAudioAccess().catch(console.error);
+    }
+}
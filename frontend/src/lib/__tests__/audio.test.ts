@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { assembleAudio } from '../audio';
+import { getWavDuration } from '../wav';
+import { FRAME_SECONDS, concat, infoFrame, mp3Frames, wavFile } from './fixtures/audio';
+
+describe('assembleAudio', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('joins WAV chunks under one RIFF header with silence between them', () => {
+        vi.stubEnv('AUDIO_CHUNK_GAP_MS', '250');
+        const { audio, duration, offsets } = assembleAudio('wav', [wavFile(8000), wavFile(4000)]);
+
+        // 8000 Hz, 16-bit mono: 16000 bytes a second, so the gap is 4000 bytes
+        const dataLength = 16000 + 4000 + 8000;
+        expect(audio.length).toBe(44 + dataLength);
+        expect(audio.toString('ascii', 0, 4)).toBe('RIFF');
+        expect(audio.readUInt32LE(4)).toBe(audio.length - 8);
+        expect(audio.toString('ascii', 8, 16)).toBe('WAVEfmt ');
+        expect(audio.readUInt32LE(16)).toBe(16);
+        expect(audio.readUInt32LE(24)).toBe(8000);
+        expect(audio.toString('ascii', 36, 40)).toBe('data');
+        expect(audio.readUInt32LE(40)).toBe(dataLength);
+
+        expect(audio.subarray(44 + 16000, 44 + 20000).every(byte => byte === 0)).toBe(true);
+        expect(offsets).toEqual([0, 1.25]);
+        expect(duration).toBe(1.75);
+        expect(getWavDuration(audio)).toBe(1.75);
+    });
+
+    it('reads WAV chunks whose data size was never filled in', () => {
+        const { duration } = assembleAudio('wav', [wavFile(8000, { declaredSize: 0xffffffff })]);
+
+        expect(duration).toBe(1);
+    });
+
+    it('refuses WAV chunks in different formats', () => {
+        expect(() => assembleAudio('wav', [wavFile(100), wavFile(100, { sampleRate: 16000 })]))
+            .toThrow('Cannot combine WAV files with different formats');
+    });
+
+    it('joins MP3 chunks without a gap when it is disabled', () => {
+        vi.stubEnv('AUDIO_CHUNK_GAP_MS', '0');
+        const { duration, offsets } = assembleAudio('mp3', [concat(infoFrame(3), mp3Frames(3)), mp3Frames(2)]);
+
+        expect(offsets[1]).toBeCloseTo(3 * FRAME_SECONDS, 9);
+        expect(duration).toBeCloseTo(5 * FRAME_SECONDS, 9);
+    });
+
+    it('needs at least one chunk', () => {
+        expect(() => assembleAudio('mp3', [])).toThrow('No audio to combine');
+    });
+});
@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SCHEMA_VERSION, getDataStore } from '../datastore';
+
+const globalStore = globalThis as typeof globalThis & { __db_store?: unknown; __db_state?: unknown };
+
+describe('datastore', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'datastore-'));
+        delete globalStore.__db_store;
+        delete globalStore.__db_state;
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        vi.unstubAllEnvs();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('starts the memory driver at the latest schema', async () => {
+        vi.stubEnv('DB_DRIVER', 'memory');
+
+        const state = await getDataStore().read(s => s);
+
+        expect(state.schemaVersion).toBe(SCHEMA_VERSION);
+        expect(state.podcasts).toEqual([]);
+    });
+
+    it('migrates and persists a new file database', async () => {
+        const filePath = path.join(dir, 'db.json');
+        vi.stubEnv('DB_DRIVER', 'file');
+        vi.stubEnv('DB_FILE_PATH', filePath);
+
+        await getDataStore().write(state => {
+            state.feedTokens.push({ token: 'abc', userId: 'user-1', createdAt: 'now' });
+        });
+
+        const saved = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        expect(saved.schemaVersion).toBe(SCHEMA_VERSION);
+        expect(saved.feedTokens).toHaveLength(1);
+    });
+
+    it('flags private audio uploaded before uploads were private', async () => {
+        const filePath = path.join(dir, 'db.json');
+        vi.stubEnv('DB_DRIVER', 'file');
+        vi.stubEnv('DB_FILE_PATH', filePath);
+        await fs.writeFile(filePath, JSON.stringify({
+            schemaVersion: 5,
+            podcasts: [
+                { id: 'private', audioKey: 'podcasts/private/a.mp3', isPublic: false },
+                { id: 'shared', audioKey: 'podcasts/shared/a.mp3', isPublic: true },
+                { id: 'unfinished', isPublic: false },
+            ],
+            transcripts: [],
+            jobs: [],
+            feedTokens: [],
+            series: [],
+        }));
+
+        const podcasts = await getDataStore().read(state => state.podcasts);
+
+        expect(podcasts.map(p => [p.id, p.audioAccessPending])).toEqual([
+            ['private', true],
+            ['shared', undefined],
+            ['unfinished', undefined],
+        ]);
+    });
+
+    it('drops a write from memory when it fails to save', async () => {
+        const filePath = path.join(dir, 'db.json');
+        vi.stubEnv('DB_DRIVER', 'file');
+        vi.stubEnv('DB_FILE_PATH', filePath);
+        const store = getDataStore();
+        await store.read(state => state);
+
+        vi.spyOn(fs, 'rename').mockRejectedValueOnce(Object.assign(new Error('no space left on device'), { code: 'ENOSPC' }));
+
+        await expect(store.write(state => {
+            state.feedTokens.push({ token: 'lost', userId: 'user-1', createdAt: 'now' });
+        })).rejects.toThrow('no space left on device');
+
+        expect(await store.read(state => state.feedTokens)).toEqual([]);
+
+        // The next successful write doesn't carry the failed one with it
+        await store.write(state => {
+            state.feedTokens.push({ token: 'kept', userId: 'user-1', createdAt: 'now' });
+        });
+        const saved = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        expect(saved.feedTokens.map((t: { token: string }) => t.token)).toEqual(['kept']);
+    });
+});
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { cancelJobsForPodcast, cancelPodcast, claimJobs, createJobUnlessActive, createPodcast, finishJob, getJobsByStatus, getPodcast, retryPodcast, setPodcastStatus } from '../db';
+
+const globalStore = globalThis as typeof globalThis & { __db_store?: unknown; __db_state?: unknown };
+
+describe('podcast status', () => {
+    beforeEach(() => {
+        vi.stubEnv('DB_DRIVER', 'memory');
+        delete globalStore.__db_store;
+        delete globalStore.__db_state;
+    });
+
+    it('moves a running podcast on', async () => {
+        const podcast = await createPodcast({ userId: 'user-1', sourceText: 'Hello' });
+
+        const updated = await setPodcastStatus(podcast.id, 'completed', { audioDurationSeconds: 12 });
+
+        expect(updated?.status).toBe('completed');
+        expect(updated?.audioDurationSeconds).toBe(12);
+    });
+
+    it('never moves a cancelled podcast on', async () => {
+        const podcast = await createPodcast({ userId: 'user-1', sourceText: 'Hello' });
+        await setPodcastStatus(podcast.id, 'generating_audio');
+        await cancelPodcast(podcast.id);
+
+        expect(await setPodcastStatus(podcast.id, 'completed', { audioDurationSeconds: 12 })).toBeNull();
+
+        const current = await getPodcast(podcast.id);
+        expect(current?.status).toBe('cancelled');
+        expect(current?.audioDurationSeconds).toBeUndefined();
+    });
+
+    it('only cancels podcasts that are still being generated', async () => {
+        const podcast = await createPodcast({ userId: 'user-1', sourceText: 'Hello' });
+        await setPodcastStatus(podcast.id, 'completed');
+
+        expect(await cancelPodcast(podcast.id)).toBeNull();
+        expect((await getPodcast(podcast.id))?.status).toBe('completed');
+    });
+
+    it('resets a failed podcast for a retry only once', async () => {
+        const podcast = await createPodcast({ userId: 'user-1', sourceText: 'Hello' });
+        await setPodcastStatus(podcast.id, 'failed', { errorMessage: 'TTS quota exceeded' });
+
+        const [first, second] = await Promise.all([retryPodcast(podcast.id), retryPodcast(podcast.id)]);
+
+        expect(first?.status).toBe('pending');
+        expect(first?.errorMessage).toBeUndefined();
+        expect(second).toBeNull();
+    });
+
+    it('waits for a cancelled job to stop before retrying', async () => {
+        const podcast = await createPodcast({ userId: 'user-1', sourceText: 'Hello' });
+        await createJobUnlessActive({ type: 'process_podcast', podcastId: podcast.id, maxAttempts: 3 });
+        await cancelPodcast(podcast.id);
+
+        expect(await retryPodcast(podcast.id)).toBeNull();
+        expect((await getPodcast(podcast.id))?.status).toBe('cancelled');
+    });
+});
+
+describe('job status', () => {
+    beforeEach(() => {
+        vi.stubEnv('DB_DRIVER', 'memory');
+        delete globalStore.__db_store;
+        delete globalStore.__db_state;
+    });
+
+    it('keeps a job cancelled while it was finishing cancelled', async () => {
+        const podcast = await createPodcast({ userId: 'user-1', sourceText: 'Hello' });
+        await createJobUnlessActive({ type: 'process_podcast', podcastId: podcast.id, maxAttempts: 3 });
+        const [job] = await claimJobs(1);
+        await cancelJobsForPodcast(podcast.id);
+
+        expect(await finishJob(job.id, 'completed')).toBeNull();
+        expect(await getJobsByStatus('cancelled')).toHaveLength(1);
+    });
+
+    it('completes a running job', async () => {
+        const podcast = await createPodcast({ userId: 'user-1', sourceText: 'Hello' });
+        await createJobUnlessActive({ type: 'process_podcast', podcastId: podcast.id, maxAttempts: 3 });
+        const [job] = await claimJobs(1);
+
+        expect((await finishJob(job.id, 'completed'))?.status).toBe('completed');
+    });
+});
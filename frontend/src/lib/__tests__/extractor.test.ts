@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MAX_DOCUMENT_BYTES, extractFromUrl } from '../extractor';
+
+const MB = 1024 * 1024;
+
+// One blank page, no text
+const BLANK_PDF = [
+    '%PDF-1.4',
+    '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+    '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj',
+    '3 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >> endobj',
+    'trailer << /Root 1 0 R >>',
+    '%%EOF',
+].join('\n');
+
+function pdfResponse(body: ReadableStream<Uint8Array>, headers: Record<string, string> = {}): Response {
+    return new Response(body, { headers: { 'content-type': 'application/pdf', ...headers } });
+}
+
+describe('extractFromUrl', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('refuses a linked PDF whose Content-Length is over the upload limit', async () => {
+        const pull = vi.fn();
+        vi.stubGlobal('fetch', vi.fn(async () =>
+            pdfResponse(new ReadableStream({ pull }), { 'content-length': String(MAX_DOCUMENT_BYTES + 1) })
+        ));
+
+        await expect(extractFromUrl('https://example.com/paper.pdf')).rejects.toThrow('Document is too large (max 25 MB)');
+    });
+
+    it('stops reading a linked PDF once it passes the upload limit', async () => {
+        const chunk = new Uint8Array(MB);
+        let sent = 0;
+        vi.stubGlobal('fetch', vi.fn(async () => pdfResponse(new ReadableStream({
+            pull(controller) {
+                sent += chunk.length;
+                controller.enqueue(chunk);
+            },
+        }))));
+
+        await expect(extractFromUrl('https://example.com/paper.pdf')).rejects.toThrow('Document is too large');
+        expect(sent).toBeLessThanOrEqual(MAX_DOCUMENT_BYTES + 2 * MB);
+    });
+
+    it('hands a linked PDF to the PDF reader', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(BLANK_PDF, { headers: { 'content-type': 'application/pdf' } })));
+
+        await expect(extractFromUrl('https://example.com/blank.pdf')).rejects.toThrow('No text found in PDF');
+    });
+
+    it('reads a linked PDF whose name is not valid percent-encoding', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(BLANK_PDF, { headers: { 'content-type': 'application/pdf' } })));
+
+        // Gets as far as reading the PDF, instead of failing on the name
+        await expect(extractFromUrl('https://example.com/growth-100%.pdf')).rejects.toThrow('No text found in PDF');
+    });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import type { Podcast } from '../db';
+import { buildPodcastFeed } from '../feed';
+
+function episode(id: string, language?: string): Podcast {
+    return {
+        id,
+        userId: 'user-1',
+        title: `Episode ${id}`,
+        voiceStyle: 'narrator',
+        durationType: '5min',
+        language,
+        audioUrl: `/api/podcasts/${id}/audio`,
+        status: 'completed',
+        isPublic: false,
+        shareSlug: id,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+}
+
+describe('buildPodcastFeed', () => {
+    it('labels each transcript with its episode language', () => {
+        const feed = buildPodcastFeed([episode('a', 'de'), episode('b')], 'https://example.com', 'token');
+
+        expect(feed).toContain('<podcast:transcript url="https://example.com/api/feeds/token/transcripts/a" type="text/vtt" language="de"/>');
+        expect(feed).toContain('<podcast:transcript url="https://example.com/api/feeds/token/transcripts/b" type="text/vtt"/>');
+    });
+
+    it('only gives the channel a language all its episodes share', () => {
+        expect(buildPodcastFeed([episode('a', 'fr'), episode('b', 'FR')], 'https://example.com', 'token'))
+            .toContain('<language>fr</language>');
+        expect(buildPodcastFeed([episode('a', 'fr'), episode('b', 'en')], 'https://example.com', 'token'))
+            .not.toContain('<language>');
+        expect(buildPodcastFeed([episode('a', 'fr'), episode('b')], 'https://example.com', 'token'))
+            .not.toContain('<language>');
+    });
+});
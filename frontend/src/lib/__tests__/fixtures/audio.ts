@@ -0,0 +1,93 @@
+/**
+ * Fixture audio built byte by byte, so tests know exactly what's in it
+ */
+
+// MPEG-1 layer III, 44.1 kHz, no CRC
+const MPEG1_LAYER3 = [0xff, 0xfb];
+export const BITRATE_128K = 9;
+export const BITRATE_64K = 5;
+// The lowest bitrate whose frames are big enough for a Xing/Info tag
+export const BITRATE_48K = 3;
+
+const BITRATES: Record<number, number> = { [BITRATE_48K]: 48000, [BITRATE_64K]: 64000, [BITRATE_128K]: 128000 };
+
+/** Seconds per MPEG-1 layer III frame at 44.1 kHz */
+export const FRAME_SECONDS = 1152 / 44100;
+
+/**
+ * One audio frame (stereo, no padding), filled with `fill` so it can be told apart from silence
+ */
+export function mp3Frame(bitrateIndex = BITRATE_128K, fill = 0x11): Buffer {
+    const frame = Buffer.alloc(mp3FrameLength(bitrateIndex), fill);
+    Buffer.from([...MPEG1_LAYER3, bitrateIndex << 4, 0x00]).copy(frame);
+    return frame;
+}
+
+export function mp3FrameLength(bitrateIndex: number): number {
+    return Math.floor((144 * BITRATES[bitrateIndex]) / 44100);
+}
+
+export function mp3Frames(count: number, bitrateIndex = BITRATE_128K): Buffer {
+    return Buffer.concat(Array.from({ length: count }, () => new Uint8Array(mp3Frame(bitrateIndex))));
+}
+
+/**
+ * A LAME-style Info frame, as TTS services put at the start of each file
+ */
+export function infoFrame(frameCount: number): Buffer {
+    const frame = mp3Frame(BITRATE_128K, 0x00);
+    // After the header and 32 bytes of stereo side info
+    frame.write('Info', 36, 'ascii');
+    frame.writeUInt32BE(0x03, 40);
+    frame.writeUInt32BE(frameCount, 44);
+    return frame;
+}
+
+/**
+ * An ID3v2.3 tag whose body holds bytes that look like an MPEG sync word
+ */
+export function id3v2Tag(bodySize = 64): Buffer {
+    const body = Buffer.alloc(bodySize, 0x20);
+    Buffer.from([0xff, 0xfb, 0x90, 0x00]).copy(body, 8);
+
+    const header = Buffer.from('ID3\x03\x00\x00\x00\x00\x00\x00', 'latin1');
+    header[9] = bodySize & 0x7f;
+    header[8] = (bodySize >> 7) & 0x7f;
+    return Buffer.concat([header, body].map(buf => new Uint8Array(buf)));
+}
+
+export function id3v1Tag(): Buffer {
+    const tag = Buffer.alloc(128, 0x20);
+    tag.write('TAG', 0, 'ascii');
+    return tag;
+}
+
+/**
+ * A PCM WAV file of `samples` 16-bit samples
+ * `declaredSize` overrides the data chunk size, as engines writing to a pipe leave it unset
+ */
+export function wavFile(samples: number, { sampleRate = 8000, channels = 1, declaredSize }: { sampleRate?: number; channels?: number; declaredSize?: number } = {}): Buffer {
+    const blockAlign = channels * 2;
+    const data = Buffer.alloc(samples * blockAlign, 0x01);
+    const header = Buffer.alloc(44);
+
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(36 + data.length, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20);
+    header.writeUInt16LE(channels, 22);
+    header.writeUInt32LE(sampleRate, 24);
+    header.writeUInt32LE(sampleRate * blockAlign, 28);
+    header.writeUInt16LE(blockAlign, 32);
+    header.writeUInt16LE(16, 34);
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(declaredSize ?? data.length, 40);
+
+    return Buffer.concat([header, data].map(buf => new Uint8Array(buf)));
+}
+
+export function concat(...buffers: Buffer[]): Buffer {
+    return Buffer.concat(buffers.map(buf => new Uint8Array(buf)));
+}
@@ -0,0 +1,55 @@
+/**
+ * Builds ZIP archives in memory for tests
+ */
+
+import { deflateRawSync } from 'zlib';
+
+export interface FixtureEntry {
+    name: string;
+    data: Buffer;
+    deflate?: boolean;
+    /** Uncompressed size to put in the central directory, instead of the real one */
+    declaredSize?: number;
+}
+
+export function buildZip(entries: FixtureEntry[], { declaredCount }: { declaredCount?: number } = {}): Buffer {
+    const locals: Buffer[] = [];
+    const directory: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf8');
+        const body = entry.deflate ? deflateRawSync(entry.data) : entry.data;
+        const size = entry.declaredSize ?? entry.data.length;
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(entry.deflate ? 8 : 0, 8);
+        local.writeUInt32LE(body.length, 18);
+        local.writeUInt32LE(size, 22);
+        local.writeUInt16LE(name.length, 26);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(0x800, 8);
+        central.writeUInt16LE(entry.deflate ? 8 : 0, 10);
+        central.writeUInt32LE(body.length, 20);
+        central.writeUInt32LE(size, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        locals.push(local, name, body);
+        directory.push(central, name);
+        offset += local.length + name.length + body.length;
+    }
+
+    const directorySize = directory.reduce((sum, buf) => sum + buf.length, 0);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(declaredCount ?? entries.length, 8);
+    end.writeUInt16LE(declaredCount ?? entries.length, 10);
+    end.writeUInt32LE(directorySize, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, ...directory, end].map(buf => new Uint8Array(buf)));
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { extractPageMetadata } from '../metadata';
+
+function page(head: string): string {
+    return `<html lang="en-GB"><head>${head}</head><body><p>Text</p></body></html>`;
+}
+
+describe('extractPageMetadata', () => {
+    it('reads an article from a JSON-LD graph', () => {
+        const metadata = extractPageMetadata(page(`
+            <script type="application/ld+json">
+                {"@context": "https://schema.org", "@graph": [
+                    {"@type": "WebSite", "name": "Ignored"},
+                    {"@type": ["NewsArticle"], "headline": "Rivers &amp; roads",
+                     "author": [{"@type": "Person", "name": "Ana Ruiz"}, "Ben Ode"],
+                     "publisher": {"@type": "Organization", "name": "The Ledger"},
+                     "datePublished": "2024-03-01T09:00:00Z",
+                     "inLanguage": {"@type": "Language", "name": "es"},
+                     "image": [{"@type": "ImageObject", "url": "/lead.jpg"}],
+                     "mainEntityOfPage": {"@id": "https://example.com/rivers"}}
+                ]}
+            </script>
+            <script type="application/ld+json">{ not json</script>
+        `), 'https://example.com/page');
+
+        expect(metadata).toEqual({
+            title: 'Rivers & roads',
+            authors: ['Ana Ruiz', 'Ben Ode'],
+            canonicalUrl: 'https://example.com/rivers',
+            publishedAt: '2024-03-01T09:00:00.000Z',
+            siteName: 'The Ledger',
+            language: 'es',
+            imageUrl: 'https://example.com/lead.jpg',
+        });
+    });
+
+    it('removes only the site name from a title, keeping its other separators', () => {
+        const metadata = extractPageMetadata(page(`
+            <meta property="og:site_name" content="Site">
+            <meta property="og:title" content="Part A: Part B | Site">
+        `), 'https://example.com/');
+
+        expect(metadata.title).toBe('Part A: Part B');
+    });
+
+    it('removes a site name that leads the title', () => {
+        const metadata = extractPageMetadata(page(`
+            <meta property="og:site_name" content="Site">
+            <title>Site - Part A – Part B</title>
+        `), 'https://example.com/');
+
+        expect(metadata.title).toBe('Part A – Part B');
+    });
+
+    it('guesses the headline when the site name is unknown', () => {
+        const metadata = extractPageMetadata(page('<title>A fairly long headline | Shortname</title>'), 'https://example.com/');
+
+        expect(metadata.title).toBe('A fairly long headline');
+        expect(metadata.language).toBe('en-GB');
+    });
+
+    it('reads citation tags, turning "Last, First" into "First Last"', () => {
+        const metadata = extractPageMetadata(page(`
+            <meta name="citation_title" content="On Lighthouses">
+            <meta name="citation_author" content="Smith, Jane">
+            <meta name="citation_author" content="Doe, John">
+            <meta name="citation_publication_date" content="2021/05/04">
+        `), 'https://example.com/');
+
+        expect(metadata.title).toBe('On Lighthouses');
+        expect(metadata.authors).toEqual(['Jane Smith', 'John Doe']);
+        expect(metadata.publishedAt).toMatch(/^2021-05-0[34]/);
+    });
+});
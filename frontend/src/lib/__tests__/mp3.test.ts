@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { concatMp3, getMp3Duration } from '../mp3';
+import {
+    BITRATE_128K, BITRATE_48K, BITRATE_64K, FRAME_SECONDS, concat, id3v1Tag, id3v2Tag, infoFrame, mp3FrameLength, mp3Frames,
+} from './fixtures/audio';
+
+const FRAME_BYTES = mp3FrameLength(BITRATE_128K);
+// The joined stream's Info frame uses the smallest frame the tag fits in
+const INFO_BYTES = mp3FrameLength(BITRATE_48K);
+
+/**
+ * Split a stream made only of fixture frames back into frames
+ */
+function frameStarts(audio: Buffer): number[] {
+    const starts: number[] = [];
+    for (let offset = 0; offset < audio.length;) {
+        starts.push(offset);
+        offset += mp3FrameLength(audio[offset + 2] >> 4);
+    }
+    return starts;
+}
+
+describe('getMp3Duration', () => {
+    it('counts frames across ID3 tags and junk bytes', () => {
+        const audio = concat(
+            id3v2Tag(),
+            mp3Frames(10),
+            // A sync word that doesn't line up with the next frame, then noise
+            Buffer.from([0xff, 0xfb, 0x90, 0x00, 0x12, 0x34, 0x56]),
+            mp3Frames(5),
+            id3v1Tag()
+        );
+
+        expect(getMp3Duration(audio)).toBeCloseTo(15 * FRAME_SECONDS, 9);
+    });
+
+    it('leaves out Info frames', () => {
+        const audio = concat(infoFrame(4), mp3Frames(4), infoFrame(3), mp3Frames(3));
+
+        expect(getMp3Duration(audio)).toBeCloseTo(7 * FRAME_SECONDS, 9);
+    });
+
+    it('rejects data without frames', () => {
+        expect(() => getMp3Duration(Buffer.alloc(1000))).toThrow('No MP3 audio frames found');
+    });
+});
+
+describe('concatMp3', () => {
+    const first = concat(id3v2Tag(), infoFrame(12), mp3Frames(12));
+    const second = concat(id3v2Tag(), infoFrame(8), mp3Frames(8), id3v1Tag());
+
+    it('writes one Info frame with the frame count and byte total of the joined stream', () => {
+        const { audio } = concatMp3([first, second]);
+
+        // Tags and per-chunk Info frames are dropped
+        expect(audio.length).toBe(INFO_BYTES + 20 * FRAME_BYTES);
+        expect(audio[2] >> 4).toBe(BITRATE_48K);
+        expect(audio.toString('ascii', 36, 40)).toBe('Info');
+        expect(audio.readUInt32BE(40)).toBe(0x07);
+        expect(audio.readUInt32BE(44)).toBe(20);
+        expect(audio.readUInt32BE(48)).toBe(audio.length);
+        expect(audio.indexOf('Info', INFO_BYTES, 'ascii')).toBe(-1);
+        expect(audio.indexOf('ID3', 0, 'ascii')).toBe(-1);
+    });
+
+    it('writes a seek table that moves forward through the file', () => {
+        const { audio } = concatMp3([first, second]);
+        const toc = Array.from(audio.subarray(52, 152));
+
+        expect(toc[0]).toBe(Math.floor((256 * INFO_BYTES) / audio.length));
+        expect(toc.every((position, i) => i === 0 || position >= toc[i - 1])).toBe(true);
+        expect(toc[99]).toBeLessThan(256);
+    });
+
+    it('marks a stream with mixed bitrates as VBR', () => {
+        const { audio } = concatMp3([mp3Frames(6), mp3Frames(6, BITRATE_64K)]);
+
+        expect(audio.toString('ascii', 36, 40)).toBe('Xing');
+        expect(audio.readUInt32BE(44)).toBe(12);
+    });
+
+    it('separates chunks with silent frames', () => {
+        const gapSeconds = 0.25;
+        const gapFrames = Math.round(gapSeconds / FRAME_SECONDS);
+        const { audio, duration, offsets } = concatMp3([first, second], gapSeconds);
+
+        expect(audio.readUInt32BE(44)).toBe(20 + gapFrames);
+        expect(offsets).toHaveLength(2);
+        expect(offsets[0]).toBe(0);
+        expect(offsets[1]).toBeCloseTo((12 + gapFrames) * FRAME_SECONDS, 9);
+        expect(duration).toBeCloseTo((20 + gapFrames) * FRAME_SECONDS, 9);
+        expect(getMp3Duration(audio)).toBeCloseTo(duration, 9);
+
+        // Info frame, the first chunk, then frames with a plain header and no audio data
+        const starts = frameStarts(audio);
+        const gap = starts.slice(13, 13 + gapFrames).map(start => audio.subarray(start, start + FRAME_BYTES));
+        expect(gap).toHaveLength(gapFrames);
+        for (const frame of gap) {
+            expect(frame[2] >> 4).toBe(BITRATE_128K);
+            expect(frame.subarray(4).every(byte => byte === 0)).toBe(true);
+        }
+        expect(audio[starts[13 + gapFrames] + 40]).toBe(0x11);
+    });
+
+    it('rejects chunks without frames', () => {
+        expect(() => concatMp3([id3v2Tag(), Buffer.alloc(10)])).toThrow('No MP3 audio frames found');
+    });
+});
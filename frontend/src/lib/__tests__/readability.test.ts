@@ -0,0 +1,71 @@
+import { readFileSync, readdirSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { blocksToText, extractArticleBlocks, extractDocumentBlocks } from '../readability';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'readability');
+
+function readFixture(name: string): string {
+    return readFileSync(path.join(FIXTURES, name), 'utf8');
+}
+
+describe('extractArticleBlocks', () => {
+    // Saved pages, each with the blocks expected from it next to it
+    const pages = readdirSync(FIXTURES).filter(name => name.endsWith('.html'));
+
+    it.each(pages)('extracts %s', async name => {
+        const blocks = extractArticleBlocks(readFixture(name));
+        await expect(JSON.stringify(blocks, null, 2) + '\n')
+            .toMatchFileSnapshot(path.join(FIXTURES, name.replace(/\.html$/, '.blocks.json')));
+    });
+
+    it('drops navigation, share bars, ads and comments', () => {
+        const text = blocksToText(extractArticleBlocks(readFixture('news-article.html')));
+
+        expect(text).toContain('The city council voted seven to two');
+        expect(text).not.toMatch(/Advertisement|Tweet|Most read|Related stories|waiting for this for years|cookies/);
+    });
+
+    it('keeps sibling containers split from the top candidate', () => {
+        const text = blocksToText(extractArticleBlocks(readFixture('split-content.html')));
+
+        expect(text).toContain('The Pharos of Alexandria');
+        expect(text).toContain('The great change came with the Fresnel lens');
+        expect(text).not.toContain('lighthouse calendar');
+    });
+
+    it('reads the whole body when no container has enough text', () => {
+        const blocks = extractArticleBlocks(readFixture('short-post.html'));
+
+        expect(blocks.map(block => block.text)).toEqual([
+            'Closed on Monday',
+            'The library will be closed on Monday for the bank holiday.',
+            'Returns can be left in the box by the side door.',
+        ]);
+    });
+});
+
+describe('extractDocumentBlocks', () => {
+    it('keeps everything but non-content tags', () => {
+        const blocks = extractDocumentBlocks(
+            '<body><h2>Chapter One</h2><p>It was a <em>bright</em> cold day.</p><script>x()</script><p class="sidebar">Aside</p></body>'
+        );
+
+        expect(blocks).toEqual([
+            { type: 'heading', text: 'Chapter One', level: 2 },
+            { type: 'paragraph', text: 'It was a bright cold day.' },
+            { type: 'paragraph', text: 'Aside' },
+        ]);
+    });
+});
+
+describe('blocksToText', () => {
+    it('ends headings and list items with a full stop', () => {
+        expect(blocksToText([
+            { type: 'heading', text: 'Getting started', level: 2 },
+            { type: 'list-item', text: 'Install the app' },
+            { type: 'list-item', text: 'Is it done?' },
+            { type: 'paragraph', text: 'That is all' },
+        ])).toBe('Getting started.\n\nInstall the app.\n\nIs it done?\n\nThat is all');
+    });
+});
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Podcast, createPodcast, deletePodcast, getPodcast, getSeriesEpisodes, hasActiveJob, setPodcastStatus } from '../db';
+import { getDataStore } from '../datastore';
+import { queueNextEpisode } from '../jobs';
+import { createSeriesEpisodes, getSeriesProgress } from '../series';
+
+// Queued episodes stay in generation, so the tests see the series as the worker left it
+vi.mock('../pipeline', () => ({ processPodcast: () => new Promise(() => undefined) }));
+
+const globalStore = globalThis as typeof globalThis & {
+    __db_store?: unknown;
+    __db_state?: unknown;
+    __job_worker?: { timer: ReturnType<typeof setInterval> | null };
+};
+
+const parts = [
+    { title: 'Loomings', content: 'Call me Ishmael.', wordCount: 3 },
+    { title: 'The Carpet-Bag', content: 'I stuffed a shirt or two into my old carpet-bag.', wordCount: 11 },
+    { content: 'It was a very dubious-looking place.', wordCount: 6 },
+];
+
+describe('createSeriesEpisodes', () => {
+    beforeEach(() => {
+        vi.stubEnv('DB_DRIVER', 'memory');
+        delete globalStore.__db_store;
+        delete globalStore.__db_state;
+    });
+
+    it('makes the podcast the first episode and saves its extract stage', async () => {
+        const podcast = await createPodcast({ userId: 'user-1', sourceUrl: 'https://example.com/moby-dick' });
+
+        const first = await createSeriesEpisodes(podcast, { title: 'Moby-Dick', author: 'Herman Melville' }, parts);
+
+        expect(first.id).toBe(podcast.id);
+        expect(first.completedStages).toEqual(['extract']);
+        expect(first.extractedText).toBe('Call me Ishmael.');
+
+        const episodes = await getSeriesEpisodes(first.seriesId!);
+        expect(episodes.map(e => [e.episodeNumber, e.title, e.status, e.completedStages])).toEqual([
+            [1, 'Moby-Dick: 1. Loomings', 'pending', ['extract']],
+            [2, 'Moby-Dick: 2. The Carpet-Bag', 'pending', ['extract']],
+            [3, 'Moby-Dick: Part 3', 'pending', ['extract']],
+        ]);
+        expect(episodes.every(e => e.author === 'Herman Melville' && e.userId === 'user-1')).toBe(true);
+    });
+
+    it('never creates a second series for the same podcast', async () => {
+        const podcast = await createPodcast({ userId: 'user-1', sourceText: 'A long book' });
+
+        const first = await createSeriesEpisodes(podcast, { title: 'Moby-Dick' }, parts);
+        const again = await createSeriesEpisodes(podcast, { title: 'Moby-Dick' }, parts);
+
+        expect(again.seriesId).toBe(first.seriesId);
+        const state = await getDataStore().read(s => s);
+        expect(state.series).toHaveLength(1);
+        expect(state.podcasts).toHaveLength(3);
+    });
+
+    it('fails for a deleted podcast without creating episodes', async () => {
+        const podcast = await createPodcast({ userId: 'user-1', sourceText: 'A long book' });
+        await getDataStore().write(state => {
+            state.podcasts = [];
+        });
+
+        await expect(createSeriesEpisodes(podcast, { title: 'Moby-Dick' }, parts)).rejects.toThrow('deleted');
+        expect(await getPodcast(podcast.id)).toBeNull();
+        expect(await getDataStore().read(state => state.series)).toEqual([]);
+    });
+});
+
+describe('queueNextEpisode', () => {
+    let episodes: Podcast[];
+
+    beforeEach(async () => {
+        vi.stubEnv('DB_DRIVER', 'memory');
+        delete globalStore.__db_store;
+        delete globalStore.__db_state;
+        delete globalStore.__job_worker;
+
+        const podcast = await createPodcast({ userId: 'user-1', sourceText: 'A long book' });
+        const first = await createSeriesEpisodes(podcast, { title: 'Moby-Dick' }, parts);
+        episodes = await getSeriesEpisodes(first.seriesId!);
+    });
+
+    afterEach(() => {
+        clearInterval(globalStore.__job_worker?.timer ?? undefined);
+    });
+
+    it('queues the next episode after one fails', async () => {
+        const failed = await setPodcastStatus(episodes[0].id, 'failed');
+
+        await queueNextEpisode(failed!);
+
+        expect(await hasActiveJob(episodes[1].id)).toBe(true);
+        expect(await hasActiveJob(episodes[2].id)).toBe(false);
+    });
+
+    it('queues one job when two ends are reported at once', async () => {
+        // A running episode that is cancelled: the cancel route and the worker both move on
+        const cancelled = await setPodcastStatus(episodes[0].id, 'cancelled');
+
+        await Promise.all([queueNextEpisode(cancelled!), queueNextEpisode(cancelled!)]);
+
+        const jobs = await getDataStore().read(state => state.jobs.filter(j => j.podcastId === episodes[1].id));
+        expect(jobs).toHaveLength(1);
+    });
+
+    it('skips later episodes that were cancelled while waiting', async () => {
+        await setPodcastStatus(episodes[0].id, 'completed');
+        await setPodcastStatus(episodes[1].id, 'cancelled');
+
+        await queueNextEpisode(episodes[0]);
+
+        expect(await hasActiveJob(episodes[1].id)).toBe(false);
+        expect(await hasActiveJob(episodes[2].id)).toBe(true);
+    });
+
+    it('queues the next episode after one is deleted', async () => {
+        await deletePodcast(episodes[0].id);
+
+        await queueNextEpisode(episodes[0]);
+
+        expect(await hasActiveJob(episodes[1].id)).toBe(true);
+    });
+
+    it('leaves the series alone while a later episode is being generated', async () => {
+        await setPodcastStatus(episodes[0].id, 'cancelled');
+        await setPodcastStatus(episodes[1].id, 'generating_audio');
+
+        await queueNextEpisode(episodes[0]);
+
+        expect(await hasActiveJob(episodes[1].id)).toBe(false);
+        expect(await hasActiveJob(episodes[2].id)).toBe(false);
+    });
+});
+
+describe('getSeriesProgress', () => {
+    const episode = (status: Podcast['status'], percent = 0) => ({ status, progress: { stage: 'synthesize', message: '', percent } }) as Podcast;
+
+    it('sums up the episodes', () => {
+        expect(getSeriesProgress([episode('completed'), episode('generating_audio', 50), episode('pending')])).toEqual({
+            status: 'processing',
+            completedEpisodes: 1,
+            totalEpisodes: 3,
+            percent: 50,
+        });
+        expect(getSeriesProgress([episode('completed'), episode('failed')]).status).toBe('failed');
+        expect(getSeriesProgress([episode('completed'), episode('completed')]).status).toBe('completed');
+    });
+
+    it('never reports a series without episodes as completed', () => {
+        expect(getSeriesProgress([]).status).toBe('processing');
+    });
+});
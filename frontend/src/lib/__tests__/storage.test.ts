@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPodcast, getPodcast, updatePodcast } from '../db';
+import { StorageDriver, syncPendingAudioAccess } from '../storage';
+
+const globals = globalThis as typeof globalThis & {
+    __db_store?: unknown;
+    __db_state?: unknown;
+    __storage_driver?: StorageDriver;
+};
+
+function fakeStorage(setPublic: StorageDriver['setPublic']): StorageDriver {
+    return {
+        driver: 'fake',
+        put: async () => undefined,
+        deletePrefix: async () => undefined,
+        getUrl: async () => null,
+        getSignedUrl: async () => null,
+        setPublic,
+        stat: async () => null,
+        stream: () => {
+            throw new Error('not stored');
+        },
+    };
+}
+
+describe('syncPendingAudioAccess', () => {
+    beforeEach(() => {
+        vi.stubEnv('DB_DRIVER', 'memory');
+        delete globals.__db_store;
+        delete globals.__db_state;
+    });
+
+    it('revokes public access to audio of podcasts that are not shared', async () => {
+        const setPublic = vi.fn(async () => undefined);
+        globals.__storage_driver = fakeStorage(setPublic);
+
+        const podcast = await createPodcast({ userId: 'user-1', sourceText: 'Hello' });
+        await updatePodcast(podcast.id, { audioKey: 'podcasts/a/audio.mp3', audioAccessPending: true });
+        const untouched = await createPodcast({ userId: 'user-1', sourceText: 'Hello' });
+        await updatePodcast(untouched.id, { audioKey: 'podcasts/b/audio.mp3' });
+
+        await syncPendingAudioAccess();
+
+        expect(setPublic).toHaveBeenCalledTimes(1);
+        expect(setPublic).toHaveBeenCalledWith('podcasts/a/audio.mp3', false);
+        expect((await getPodcast(podcast.id))?.audioAccessPending).toBeUndefined();
+    });
+
+    it('applies sharing that was toggled while access was being set', async () => {
+        const podcast = await createPodcast({ userId: 'user-1', sourceText: 'Hello' });
+        await updatePodcast(podcast.id, { audioKey: 'podcasts/a/audio.mp3', audioAccessPending: true });
+
+        const setPublic = vi.fn(async () => {
+            if (setPublic.mock.calls.length === 1) await updatePodcast(podcast.id, { isPublic: true });
+        });
+        globals.__storage_driver = fakeStorage(setPublic);
+
+        await syncPendingAudioAccess();
+
+        expect(setPublic.mock.calls).toEqual([['podcasts/a/audio.mp3', false], ['podcasts/a/audio.mp3', true]]);
+    });
+
+    it('keeps the flag when the storage call fails', async () => {
+        globals.__storage_driver = fakeStorage(async () => {
+            throw new Error('bucket unavailable');
+        });
+        const podcast = await createPodcast({ userId: 'user-1', sourceText: 'Hello' });
+        await updatePodcast(podcast.id, { audioKey: 'podcasts/a/audio.mp3', audioAccessPending: true });
+
+        await syncPendingAudioAccess();
+
+        expect((await getPodcast(podcast.id))?.audioAccessPending).toBe(true);
+    });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptSegment } from '../db';
+import { exportTranscript } from '../transcript';
+
+function segment(sentenceIndex: number, text: string, startTime: number, endTime: number): TranscriptSegment {
+    return { id: `s${sentenceIndex}`, podcastId: 'p1', sentenceIndex, text, startTime, endTime };
+}
+
+const SEGMENTS = [
+    segment(0, 'Fish & chips cost <£5>.', 0, 2.5),
+    segment(1, 'Line one.\n\nLine two --> done.', 2.5, 3661.25),
+];
+
+describe('exportTranscript', () => {
+    it('writes SRT cues that a blank line or arrow inside the text cannot end', () => {
+        const { body, contentType } = exportTranscript('srt', 'Episode', SEGMENTS);
+
+        expect(contentType).toBe('application/x-subrip; charset=utf-8');
+        expect(body).toBe(
+            '1\n00:00:00,000 --> 00:00:02,500\nFish & chips cost <£5>.\n\n' +
+            '2\n00:00:02,500 --> 01:01:01,250\nLine one.\nLine two -> done.\n'
+        );
+    });
+
+    it('escapes markup characters in WebVTT cues', () => {
+        const { body } = exportTranscript('vtt', 'Episode', SEGMENTS);
+
+        expect(body).toBe(
+            'WEBVTT\n\n' +
+            '00:00:00.000 --> 00:00:02.500\nFish &amp; chips cost &lt;£5&gt;.\n\n' +
+            '00:00:02.500 --> 01:01:01.250\nLine one.\nLine two -&gt; done.\n'
+        );
+    });
+
+    it('names the file after the title', () => {
+        expect(exportTranscript('md', 'My Great Episode!', SEGMENTS).filename).toBe('my-great-episode.md');
+    });
+});
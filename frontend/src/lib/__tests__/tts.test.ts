@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TTSProvider, generateAudio, registerTTSProvider } from '../tts';
+
+function fakeProvider(synthesize: TTSProvider['synthesize']): TTSProvider {
+    return {
+        id: 'fake',
+        name: 'Fake TTS',
+        capabilities: { ssml: false, maxConcurrency: 2 },
+        audioFormat: 'mp3',
+        // One sentence per chunk
+        maxChunkBytes: 20,
+        voices: { narrator: { id: 'fake-voice', languageCode: 'en-US' } },
+        isConfigured: () => true,
+        synthesize,
+    };
+}
+
+describe('generateAudio', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('stops requesting chunks after one fails', async () => {
+        vi.stubEnv('TTS_PROVIDERS', 'fake');
+        const synthesize = vi.fn(async (sentences: string[]) => {
+            if (sentences[0] === 'Sentence 2.') throw new Error('quota exceeded');
+            await new Promise(resolve => setTimeout(resolve, 5));
+            return { audio: Buffer.alloc(0) };
+        });
+        registerTTSProvider(fakeProvider(synthesize));
+
+        const text = Array.from({ length: 10 }, (_, i) => `Sentence ${i + 1}.`).join(' ');
+
+        await expect(generateAudio(text)).rejects.toThrow('quota exceeded');
+        // Give requests still in flight time to finish and (wrongly) start more
+        await new Promise(resolve => setTimeout(resolve, 50));
+        // The two that were in flight when the second chunk failed, and nothing after
+        expect(synthesize).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { checkUploadLength } from '../uploads';
+import { MAX_DOCUMENT_BYTES } from '../extractor';
+
+function upload(headers: Record<string, string>): Request {
+    return new Request('http://localhost/api/podcasts', {
+        method: 'POST',
+        headers: { 'content-type': 'multipart/form-data; boundary=x', ...headers },
+    });
+}
+
+describe('checkUploadLength', () => {
+    it('lets through uploads that can fit the limit', () => {
+        expect(checkUploadLength(upload({ 'content-length': String(MAX_DOCUMENT_BYTES + 1000) }))).toBeNull();
+    });
+
+    it('refuses uploads larger than the limit before reading them', async () => {
+        const response = checkUploadLength(upload({ 'content-length': String(MAX_DOCUMENT_BYTES * 2) }));
+        expect(response?.status).toBe(413);
+        expect(await response?.json()).toEqual({ error: 'File is too large (max 25 MB)' });
+    });
+
+    it('requires a Content-Length for uploads', () => {
+        expect(checkUploadLength(upload({}))?.status).toBe(411);
+    });
+
+    it('ignores JSON requests', () => {
+        const request = new Request('http://localhost/api/podcasts', {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body: '{}',
+        });
+        expect(checkUploadLength(request)).toBeNull();
+    });
+});
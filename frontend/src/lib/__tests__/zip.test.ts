@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { openZip } from '../zip';
+import { buildZip } from './fixtures/zip';
+
+const MB = 1024 * 1024;
+
+describe('openZip', () => {
+    it('reads stored and deflated entries', () => {
+        const zip = openZip(buildZip([
+            { name: 'mimetype', data: Buffer.from('application/epub+zip') },
+            { name: 'OEBPS/chapter 1.xhtml', data: Buffer.from('<p>Call me Ishmael.</p>'), deflate: true },
+        ]));
+
+        expect(Array.from(zip.entries.keys())).toEqual(['mimetype', 'OEBPS/chapter 1.xhtml']);
+        expect(zip.readText('mimetype')).toBe('application/epub+zip');
+        expect(zip.readText('/OEBPS/chapter 1.xhtml')).toBe('<p>Call me Ishmael.</p>');
+        expect(zip.read('missing')).toBeNull();
+    });
+
+    it('stops inflating an entry that is larger than its directory says', () => {
+        const zip = openZip(buildZip([
+            { name: 'bomb.xhtml', data: Buffer.alloc(101 * MB), deflate: true, declaredSize: 100 },
+        ]));
+
+        expect(() => zip.read('bomb.xhtml')).toThrow('ZIP archive is too large when decompressed (at bomb.xhtml)');
+    });
+
+    it('limits the total decompressed from one archive', () => {
+        const chapters = Array.from({ length: 4 }, (_, i) => ({ name: `chapter${i}.xhtml`, data: Buffer.alloc(60 * MB), deflate: true }));
+        const zip = openZip(buildZip(chapters));
+
+        for (let i = 0; i < 3; i++) {
+            expect(zip.read(`chapter${i}.xhtml`)?.length).toBe(60 * MB);
+        }
+        expect(() => zip.read('chapter3.xhtml')).toThrow('too large when decompressed');
+    });
+
+    it('refuses archives with too many entries', () => {
+        expect(() => openZip(buildZip([], { declaredCount: 20000 }))).toThrow('ZIP archive has too many entries (20000)');
+    });
+});
@@ -4,19 +4,39 @@
  */
 
 // Types
+export interface PodcastProgress {
+    stage: string;
+    message: string;
+    current?: number;
+    total?: number;
+    percent: number;
+}
+
 export interface Podcast {
     id: string;
     user_id: string;
     title: string;
     source_url?: string;
     source_text?: string;
+    source_file_name?: string;
+    source_chapter?: number;
+    series_id?: string;
+    episode_number?: number;
     tone?: string;
     voice_style?: string;
     duration_type?: string;
+    author?: string;
+    authors?: string[];
+    canonical_url?: string;
+    published_at?: string;
+    site_name?: string;
+    language?: string;
+    image_url?: string;
     script?: string;
     audio_url?: string;
     audio_duration_seconds?: string;
-    status: 'pending' | 'extracting' | 'processing' | 'generating_audio' | 'uploading' | 'completed' | 'failed';
+    status: 'pending' | 'extracting' | 'processing' | 'generating_audio' | 'uploading' | 'completed' | 'failed' | 'cancelled';
+    progress?: PodcastProgress;
     error_message?: string;
     is_public?: string;
     share_slug?: string;
@@ -25,36 +45,84 @@ export interface Podcast {
     completed_at?: string;
 }
 
+export interface TranscriptWord {
+    text: string;
+    start_time: number;
+    end_time: number;
+}
+
 export interface TranscriptSegment {
     id: string;
     sentence_index: number;
     text: string;
     start_time: number;
     end_time: number;
+    words?: TranscriptWord[];
 }
 
 export interface Transcript {
     podcast_id: string;
     segments: TranscriptSegment[];
+    /** Cursor for the next page, null once every segment is loaded */
+    next_cursor: number | null;
+    total_segments: number;
     total_duration: number;
 }
 
+export interface Series {
+    id: string;
+    title: string;
+    author?: string;
+    source_url?: string;
+    episode_count: number;
+    status: 'processing' | 'completed' | 'failed' | 'cancelled';
+    completed_episodes: number;
+    percent: number;
+    /** Only when fetched by ID */
+    episodes?: Podcast[];
+    created_at: string;
+}
+
+export interface DocumentChapter {
+    index: number;
+    title: string;
+    word_count: number;
+}
+
 /**
  * Create a new podcast
+ * Uploads go as multipart form data, everything else as JSON
  */
 export async function createPodcast(data: {
     source_url?: string;
     source_text?: string;
+    file?: File;
+    chapter?: number;
+    skip_references?: boolean;
     voice_style?: string;
     duration_type?: string;
 }): Promise<Podcast> {
-    const response = await fetch('/api/podcasts', {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data),
-    });
+    const { file, ...fields } = data;
+    let init: RequestInit;
+
+    if (file) {
+        const form = new FormData();
+        Object.entries(fields).forEach(([key, value]) => {
+            if (value !== undefined) form.append(key, String(value));
+        });
+        form.append('file', file);
+        init = { method: 'POST', body: form };
+    } else {
+        init = {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(fields),
+        };
+    }
+
+    const response = await fetch('/api/podcasts', init);
 
     if (!response.ok) {
         const error = await response.json();
@@ -64,6 +132,25 @@ export async function createPodcast(data: {
     return response.json();
 }
 
+/**
+ * List the chapters of an EPUB, to narrate one of them
+ * Other formats have none
+ */
+export async function getDocumentChapters(file: File): Promise<DocumentChapter[]> {
+    const form = new FormData();
+    form.append('file', file);
+
+    const response = await fetch('/api/documents/chapters', { method: 'POST', body: form });
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to read chapters');
+    }
+
+    const data = await response.json();
+    return data.chapters;
+}
+
 /**
  * Get podcast by ID
  */
@@ -78,6 +165,30 @@ export async function getPodcast(id: string): Promise<Podcast> {
     return response.json();
 }
 
+/**
+ * Cancel an in-progress podcast
+ */
+export async function cancelPodcast(id: string): Promise<void> {
+    const response = await fetch(`/api/podcasts/${id}/cancel`, { method: 'POST' });
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to cancel podcast');
+    }
+}
+
+/**
+ * Retry a failed or cancelled podcast (resumes from the first incomplete stage)
+ */
+export async function retryPodcast(id: string): Promise<void> {
+    const response = await fetch(`/api/podcasts/${id}/retry`, { method: 'POST' });
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to retry podcast');
+    }
+}
+
 /**
  * Poll podcast status until completed or failed
  */
@@ -101,6 +212,10 @@ export async function pollPodcastStatus(
             throw new Error(podcast.error_message || 'Podcast generation failed');
         }
 
+        if (podcast.status === 'cancelled') {
+            throw new Error('Podcast generation was cancelled');
+        }
+
         // Wait 2 seconds before next poll
         await new Promise(resolve => setTimeout(resolve, 2000));
     }
@@ -108,32 +223,126 @@ export async function pollPodcastStatus(
     throw new Error('Timeout waiting for podcast completion');
 }
 
+/**
+ * Follow podcast progress over Server-Sent Events until completed or failed
+ * Falls back to polling if the event stream can't be opened or drops
+ */
+export async function watchPodcastStatus(
+    id: string,
+    onUpdate?: (podcast: Podcast) => void
+): Promise<Podcast> {
+    if (typeof EventSource === 'undefined') {
+        return pollPodcastStatus(id, onUpdate);
+    }
+
+    let podcast = await getPodcast(id);
+
+    return new Promise((resolve, reject) => {
+        const source = new EventSource(`/api/podcasts/${id}/events`);
+        let finished = false;
+
+        source.onmessage = (message) => {
+            podcast = { ...podcast, ...JSON.parse(message.data) };
+
+            if (podcast.status === 'completed') {
+                finished = true;
+                source.close();
+                // Events only carry progress fields - fetch the finished record
+                getPodcast(id)
+                    .then((completed) => {
+                        onUpdate?.(completed);
+                        resolve(completed);
+                    })
+                    .catch(reject);
+                return;
+            }
+
+            onUpdate?.(podcast);
+
+            if (podcast.status === 'failed' || podcast.status === 'cancelled') {
+                finished = true;
+                source.close();
+                reject(new Error(podcast.status === 'cancelled'
+                    ? 'Podcast generation was cancelled'
+                    : podcast.error_message || 'Podcast generation failed'));
+            }
+        };
+
+        source.onerror = () => {
+            if (finished) return;
+            source.close();
+            pollPodcastStatus(id, onUpdate).then(resolve, reject);
+        };
+    });
+}
+
+/**
+ * Follow next_cursor until every page of a transcript is loaded
+ */
+async function fetchAllTranscriptPages(url: string, errorMessage: string): Promise<Transcript> {
+    let transcript: Transcript | null = null;
+    let cursor: number | null = 0;
+
+    while (cursor !== null) {
+        const response: Response = await fetch(`${url}?cursor=${cursor}`);
+
+        if (!response.ok) {
+            const error = await response.json();
+            throw new Error(error.error || errorMessage);
+        }
+
+        const page: Transcript = await response.json();
+        transcript = transcript
+            ? { ...page, segments: [...transcript.segments, ...page.segments] }
+            : page;
+        cursor = page.next_cursor;
+    }
+
+    return transcript as Transcript;
+}
+
 /**
  * Get transcript for a podcast
  */
 export async function getTranscript(podcastId: string): Promise<Transcript> {
-    const response = await fetch(`/api/podcasts/${podcastId}/transcript`);
+    return fetchAllTranscriptPages(`/api/podcasts/${podcastId}/transcript`, 'Failed to get transcript');
+}
+
+/**
+ * Get transcript for a public shared podcast
+ */
+export async function getPublicTranscript(shareSlug: string): Promise<Transcript> {
+    return fetchAllTranscriptPages(`/api/public/${shareSlug}/transcript`, 'Failed to get public transcript');
+}
+
+/**
+ * Get the private RSS feed URL (null until one is created)
+ */
+export async function getFeedUrl(): Promise<string | null> {
+    const response = await fetch('/api/feeds');
 
     if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || 'Failed to get transcript');
+        throw new Error(error.error || 'Failed to get feed');
     }
 
-    return response.json();
+    const data = await response.json();
+    return data.feed_url;
 }
 
 /**
- * Get transcript for a public shared podcast
+ * Create a new private RSS feed URL - any previous URL stops working
  */
-export async function getPublicTranscript(shareSlug: string): Promise<Transcript> {
-    const response = await fetch(`/api/public/${shareSlug}/transcript`);
+export async function createFeedUrl(): Promise<string> {
+    const response = await fetch('/api/feeds', { method: 'POST' });
 
     if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || 'Failed to get public transcript');
+        throw new Error(error.error || 'Failed to create feed');
     }
 
-    return response.json();
+    const data = await response.json();
+    return data.feed_url;
 }
 
 /**
@@ -151,18 +360,29 @@ export async function listPodcasts(): Promise<{ podcasts: Podcast[]; total: numb
 }
 
 /**
- * Get public podcast by share slug (for public share pages)
+ * List user's series (long documents split into episodes)
  */
-export async function getPublicPodcast(slug: string): Promise<Podcast> {
-    // Use absolute URL for server-side rendering
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-    const response = await fetch(`${baseUrl}/api/public/${slug}`, {
-        cache: 'no-store',
-    });
+export async function listSeries(): Promise<Series[]> {
+    const response = await fetch('/api/series');
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to list series');
+    }
+
+    const data = await response.json();
+    return data.series;
+}
+
+/**
+ * Get a series with its episodes, in order
+ */
+export async function getSeries(id: string): Promise<Series> {
+    const response = await fetch(`/api/series/${id}`);
 
     if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || 'Failed to get public podcast');
+        throw new Error(error.error || 'Failed to get series');
     }
 
     return response.json();
@@ -0,0 +1,35 @@
+/**
+ * Audio Assembly
+ * Joins synthesized chunks into one file: per-chunk headers are dropped, the
+ * result gets a single correct header and a short silence separates chunks,
+ * which hides the clicks where one synthesis request ends and the next begins.
+ * - AUDIO_CHUNK_GAP_MS: silence between chunks (default 250, 0 to disable)
+ */
+
+import { concatMp3 } from './mp3';
+import { concatWav } from './wav';
+import type { AudioFormat } from './tts';
+
+export interface AssembledAudio {
+    audio: Buffer;
+    duration: number;
+    /** Seconds into the assembled audio at which each chunk starts */
+    offsets: number[];
+}
+
+function getChunkGapSeconds(): number {
+    const gapMs = parseInt(process.env.AUDIO_CHUNK_GAP_MS || '250', 10);
+    return Number.isFinite(gapMs) && gapMs > 0 ? gapMs / 1000 : 0;
+}
+
+/**
+ * Join chunk files of one format into a single file
+ */
+export function assembleAudio(format: AudioFormat, chunks: Buffer[]): AssembledAudio {
+    if (chunks.length === 0) {
+        throw new Error('No audio to combine');
+    }
+
+    const gapSeconds = getChunkGapSeconds();
+    return format === 'wav' ? concatWav(chunks, gapSeconds) : concatMp3(chunks, gapSeconds);
+}
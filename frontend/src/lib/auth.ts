@@ -0,0 +1,56 @@
+/**
+ * Authentication
+ * Resolves the signed-in user for API routes
+ * Provider selected with NEXT_PUBLIC_AUTH_PROVIDER:
+ * - clerk: Clerk session cookie (default)
+ * - local: fixed development user, no sign-in (LOCAL_AUTH_USER_ID)
+ */
+
+import { NextRequest } from 'next/server';
+import { getAuth } from '@clerk/nextjs/server';
+
+export interface AuthProvider {
+    name: string;
+    getUserId: (request: NextRequest) => Promise<string | null>;
+}
+
+const AUTH_PROVIDERS: Record<string, AuthProvider> = {
+    clerk: {
+        name: 'clerk',
+        getUserId: async (request) => getAuth(request).userId,
+    },
+    local: {
+        name: 'local',
+        getUserId: async () => process.env.LOCAL_AUTH_USER_ID || 'local-user',
+    },
+};
+
+export function getAuthProviderName(): string {
+    return process.env.NEXT_PUBLIC_AUTH_PROVIDER || 'clerk';
+}
+
+/**
+ * Get the configured auth provider
+ * The local stub is refused in production so a misconfigured deploy can't expose every episode
+ */
+export function getAuthProvider(): AuthProvider {
+    const name = getAuthProviderName();
+    const provider = AUTH_PROVIDERS[name];
+
+    if (!provider) {
+        throw new Error(`Unknown NEXT_PUBLIC_AUTH_PROVIDER "${name}". Use "clerk" or "local"`);
+    }
+
+    if (name === 'local' && process.env.NODE_ENV === 'production') {
+        throw new Error('The local auth provider is for development only. Configure Clerk for production');
+    }
+
+    return provider;
+}
+
+/**
+ * Get the current user's ID, or null if the request is not signed in
+ */
+export async function getCurrentUserId(request: NextRequest): Promise<string | null> {
+    return getAuthProvider().getUserId(request);
+}
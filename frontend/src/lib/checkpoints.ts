@@ -0,0 +1,42 @@
+/**
+ * Pipeline Checkpoints
+ * Keeps synthesized audio on local disk between the synthesize and upload stages,
+ * so a failed upload can be retried without paying for TTS again.
+ * Stored under CHECKPOINT_DIR (default data/checkpoints)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AudioFormat } from './tts';
+
+function getCheckpointDir(): string {
+    return process.env.CHECKPOINT_DIR || path.join(process.cwd(), 'data', 'checkpoints');
+}
+
+function getCheckpointPath(podcastId: string, format: AudioFormat): string {
+    return path.join(getCheckpointDir(), `${podcastId}.${format}`);
+}
+
+export async function saveAudioCheckpoint(podcastId: string, audio: Buffer, format: AudioFormat): Promise<void> {
+    const filePath = getCheckpointPath(podcastId, format);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, new Uint8Array(audio));
+}
+
+/**
+ * Load checkpointed audio, or null if there is none (e.g. it was written on another server)
+ */
+export async function loadAudioCheckpoint(podcastId: string, format: AudioFormat): Promise<Buffer | null> {
+    try {
+        return await fs.readFile(getCheckpointPath(podcastId, format));
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+export async function deleteAudioCheckpoint(podcastId: string): Promise<void> {
+    await Promise.all((['mp3', 'wav'] as AudioFormat[]).map(format =>
+        fs.rm(getCheckpointPath(podcastId, format), { force: true })
+    ));
+}
@@ -0,0 +1,258 @@
+/**
+ * Datastore Drivers
+ * Storage backends behind the db.ts API, selected with DB_DRIVER:
+ * - file: JSON document on disk (DB_FILE_PATH, default data/db.json)
+ * - memory: in-process arrays, lost on restart (used for tests)
+ * Both drivers run the same schema migrations when state is loaded.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { FeedToken, Job, Podcast, Series, TranscriptSegment } from './db';
+
+export interface DatabaseState {
+    schemaVersion: number;
+    podcasts: Podcast[];
+    transcripts: TranscriptSegment[];
+    jobs: Job[];
+    feedTokens: FeedToken[];
+    series: Series[];
+}
+
+export interface DataStore {
+    readonly driver: string;
+    /** Run a read-only query against the current state */
+    read<T>(query: (state: DatabaseState) => T): Promise<T>;
+    /** Apply a mutation and persist the result (writes are serialized) */
+    write<T>(mutation: (state: DatabaseState) => T): Promise<T>;
+}
+
+/**
+ * State as loaded, before migrations: any earlier schema version, or nothing at all
+ */
+type StoredState = Partial<DatabaseState> & Record<string, unknown>;
+
+interface Migration {
+    version: number;
+    description: string;
+    up: (state: StoredState) => void;
+}
+
+// Append new migrations to the end - never edit or reorder shipped ones
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Create podcasts and transcripts collections',
+        up: (state) => {
+            state.podcasts = state.podcasts || [];
+            state.transcripts = state.transcripts || [];
+        },
+    },
+    {
+        version: 2,
+        description: 'Create background jobs collection',
+        up: (state) => {
+            state.jobs = state.jobs || [];
+        },
+    },
+    {
+        version: 3,
+        description: 'Create RSS feed tokens collection',
+        up: (state) => {
+            state.feedTokens = state.feedTokens || [];
+        },
+    },
+    {
+        version: 4,
+        description: 'Record storage keys for audio uploaded to Firebase Storage',
+        up: (state) => {
+            // Keys were only implied by the public bucket URL before storage drivers
+            for (const podcast of state.podcasts || []) {
+                const match = podcast.audioUrl?.match(/^https:\/\/storage\.googleapis\.com\/[^/]+\/(podcasts\/.+)$/);
+                if (match && !podcast.audioKey) {
+                    podcast.audioKey = match[1];
+                }
+            }
+        },
+    },
+    {
+        version: 5,
+        description: 'Create series collection for multi-episode documents',
+        up: (state) => {
+            state.series = state.series || [];
+        },
+    },
+    {
+        version: 6,
+        description: 'Flag private audio uploaded while every file was made public',
+        up: (state) => {
+            // Revoked by syncPendingAudioAccess (lib/storage) on startup
+            for (const podcast of state.podcasts || []) {
+                if (podcast.audioKey && !podcast.isPublic) {
+                    podcast.audioAccessPending = true;
+                }
+            }
+        },
+    },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Bring a raw state object up to the latest schema version
+ * Returns the number of migrations that were applied
+ */
+function migrate(state: StoredState): number {
+    const current = typeof state.schemaVersion === 'number' ? state.schemaVersion : 0;
+
+    if (current > SCHEMA_VERSION) {
+        throw new Error(`Database schema v${current} is newer than this build supports (v${SCHEMA_VERSION})`);
+    }
+
+    const pending = MIGRATIONS.filter(m => m.version > current);
+    for (const migration of pending) {
+        console.log(`🗄️ Migrating database to v${migration.version}: ${migration.description}`);
+        migration.up(state);
+        state.schemaVersion = migration.version;
+    }
+
+    return pending.length;
+}
+
+function createEmptyState(): DatabaseState {
+    const state: StoredState = {};
+    migrate(state);
+    // Migrations create every collection
+    return state as DatabaseState;
+}
+
+/**
+ * In-memory driver
+ * Using globalThis to ensure singleton across hot reloads
+ */
+class MemoryDataStore implements DataStore {
+    readonly driver = 'memory';
+
+    private get state(): DatabaseState {
+        const globalState = globalThis as typeof globalThis & { __db_state?: DatabaseState };
+        if (!globalState.__db_state) {
+            globalState.__db_state = createEmptyState();
+        }
+        return globalState.__db_state;
+    }
+
+    async read<T>(query: (state: DatabaseState) => T): Promise<T> {
+        return query(this.state);
+    }
+
+    async write<T>(mutation: (state: DatabaseState) => T): Promise<T> {
+        return mutation(this.state);
+    }
+}
+
+/**
+ * JSON file driver
+ * Keeps the document in memory and rewrites it atomically after each write.
+ * Intended for a single server process - concurrent processes will overwrite each other.
+ */
+class FileDataStore implements DataStore {
+    readonly driver = 'file';
+
+    private loading: Promise<DatabaseState> | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly filePath: string) { }
+
+    private load(): Promise<DatabaseState> {
+        if (!this.loading) {
+            this.loading = this.loadFromDisk().catch((error) => {
+                this.loading = null;
+                throw error;
+            });
+        }
+        return this.loading;
+    }
+
+    private async loadFromDisk(): Promise<DatabaseState> {
+        let state: StoredState = {};
+
+        try {
+            state = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+        } catch (error: any) {
+            // A missing file is a fresh database; anything else must not be overwritten
+            if (error.code !== 'ENOENT') {
+                throw new Error(`Failed to load database from ${this.filePath}: ${error.message}`);
+            }
+        }
+
+        const migrated = migrate(state);
+        // Migrations create every collection
+        const loaded = state as DatabaseState;
+        if (migrated > 0) {
+            await this.flush(loaded);
+        }
+
+        console.log(`🗄️ Database loaded from ${this.filePath} (schema v${loaded.schemaVersion})`);
+        return loaded;
+    }
+
+    private async flush(state: DatabaseState): Promise<void> {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+        const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(state), 'utf-8');
+        await fs.rename(tmpPath, this.filePath);
+    }
+
+    async read<T>(query: (state: DatabaseState) => T): Promise<T> {
+        return query(await this.load());
+    }
+
+    async write<T>(mutation: (state: DatabaseState) => T): Promise<T> {
+        const run = this.queue.then(async () => {
+            const state = await this.load();
+            try {
+                const result = mutation(state);
+                await this.flush(state);
+                return result;
+            } catch (error) {
+                // The mutation may already be applied in memory - reload the last saved
+                // state so a later write doesn't persist a change reported as failed
+                this.loading = null;
+                throw error;
+            }
+        });
+
+        // Keep the queue alive even if this write fails
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+}
+
+/**
+ * Get the configured datastore (created once per process)
+ */
+export function getDataStore(): DataStore {
+    const globalStore = globalThis as typeof globalThis & { __db_store?: DataStore };
+
+    if (globalStore.__db_store) {
+        return globalStore.__db_store;
+    }
+
+    const driver = process.env.DB_DRIVER || 'file';
+
+    switch (driver) {
+        case 'memory':
+            globalStore.__db_store = new MemoryDataStore();
+            break;
+        case 'file':
+            globalStore.__db_store = new FileDataStore(
+                process.env.DB_FILE_PATH || path.join(process.cwd(), 'data', 'db.json')
+            );
+            break;
+        default:
+            throw new Error(`Unknown DB_DRIVER "${driver}". Use "file" or "memory"`);
+    }
+
+    return globalStore.__db_store;
+}
@@ -1,11 +1,26 @@
 /**
- * Serverless-compatible Database
- * Uses in-memory storage for Vercel (data persists during function lifecycle)
- * Note: Data does NOT persist across cold starts on Vercel
- * For production, consider using Vercel KV, PlanetScale, or Supabase
+ * Database
+ * Podcast, transcript and job operations on top of the configured datastore driver
+ * (see datastore.ts - DB_DRIVER=file persists to disk, DB_DRIVER=memory does not)
  */
 
+import { randomBytes } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
+import { DatabaseState, getDataStore } from './datastore';
+import { publishPodcastUpdate } from './events';
+import type { AudioFormat, TTSSegment } from './tts';
+
+export type PipelineStage = 'extract' | 'summarize' | 'synthesize' | 'upload' | 'transcript';
+
+export const PIPELINE_STAGES: PipelineStage[] = ['extract', 'summarize', 'synthesize', 'upload', 'transcript'];
+
+export interface PodcastProgress {
+    stage: PipelineStage;
+    message: string;
+    current?: number;
+    total?: number;
+    percent: number;
+}
 
 export interface Podcast {
     id: string;
@@ -13,14 +28,44 @@ export interface Podcast {
     title: string;
     sourceUrl?: string;
     sourceText?: string;
+    // Uploaded document (PDF, EPUB, DOCX, Markdown, HTML), kept in storage until the podcast is deleted
+    sourceFile?: SourceFile;
+    // EPUB chapter this podcast narrates (whole book when unset)
+    sourceChapter?: number;
+    // Episode of a series, for documents too long for one episode (see lib/series)
+    seriesId?: string;
+    episodeNumber?: number;
+    // Leave out the references section of papers
+    skipReferences?: boolean;
     tone?: string;
     voiceStyle: string;
     durationType: string;
+    author?: string;
+    authors?: string[];
+    // Article metadata read from the source page (see lib/metadata)
+    canonicalUrl?: string;
+    publishedAt?: string;
+    siteName?: string;
+    language?: string;
+    imageUrl?: string;
+    extractedText?: string;
     script?: string;
     audioUrl?: string;
+    // Storage key of the audio file (see lib/storage)
+    audioKey?: string;
+    // Stored file's public access still has to be matched to isPublic
+    audioAccessPending?: boolean;
+    audioFormat?: AudioFormat;
+    audioSizeBytes?: number;
     audioDurationSeconds?: number;
-    status: 'pending' | 'extracting' | 'processing' | 'generating_audio' | 'uploading' | 'completed' | 'failed';
+    // Sentence timings measured during synthesis, kept until the transcript is saved
+    sentenceTimings?: TTSSegment[];
+    status: 'pending' | 'extracting' | 'processing' | 'generating_audio' | 'uploading' | 'completed' | 'failed' | 'cancelled';
     errorMessage?: string;
+    attempts?: number;
+    lastError?: string;
+    completedStages?: PipelineStage[];
+    progress?: PodcastProgress;
     isPublic: boolean;
     shareSlug: string;
     createdAt: string;
@@ -28,6 +73,35 @@ export interface Podcast {
     completedAt?: string;
 }
 
+/**
+ * A long document split into episodes, generated one after another
+ * Episodes are podcasts with this seriesId; progress is derived from their status
+ */
+export interface Series {
+    id: string;
+    userId: string;
+    title: string;
+    author?: string;
+    sourceUrl?: string;
+    episodeCount: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface SourceFile {
+    /** Storage key (see lib/storage) */
+    key: string;
+    name: string;
+    contentType: string;
+    size: number;
+}
+
+export interface TranscriptWord {
+    text: string;
+    startTime: number;
+    endTime: number;
+}
+
 export interface TranscriptSegment {
     id: string;
     podcastId: string;
@@ -35,20 +109,28 @@ export interface TranscriptSegment {
     text: string;
     startTime: number;
     endTime: number;
+    words?: TranscriptWord[];
 }
 
-// In-memory database (persists during function lifecycle)
-// Using globalThis to ensure singleton across hot reloads
-const globalDb = globalThis as typeof globalThis & {
-    __db_podcasts: Podcast[];
-    __db_transcripts: TranscriptSegment[];
-};
-
-if (!globalDb.__db_podcasts) {
-    globalDb.__db_podcasts = [];
+export interface Job {
+    id: string;
+    type: 'process_podcast';
+    podcastId: string;
+    status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+    attempts: number;
+    maxAttempts: number;
+    runAt: string;
+    heartbeatAt?: string;
+    lastError?: string;
+    createdAt: string;
+    updatedAt: string;
 }
-if (!globalDb.__db_transcripts) {
-    globalDb.__db_transcripts = [];
+
+export interface FeedToken {
+    /** Secret that addresses the user's RSS feed */
+    token: string;
+    userId: string;
+    createdAt: string;
 }
 
 /**
@@ -61,19 +143,29 @@ function generateShareSlug(): string {
 
 // ============== Podcast Operations ==============
 
-export async function createPodcast(data: {
+interface NewPodcast {
     userId: string;
     sourceUrl?: string;
     sourceText?: string;
+    sourceChapter?: number;
+    seriesId?: string;
+    episodeNumber?: number;
+    skipReferences?: boolean;
     voiceStyle?: string;
     durationType?: string;
-}): Promise<Podcast> {
-    const podcast: Podcast = {
+}
+
+function newPodcast(data: NewPodcast): Podcast {
+    return {
         id: uuidv4(),
         userId: data.userId,
         title: 'Processing...',
         sourceUrl: data.sourceUrl,
         sourceText: data.sourceText,
+        sourceChapter: data.sourceChapter,
+        seriesId: data.seriesId,
+        episodeNumber: data.episodeNumber,
+        skipReferences: data.skipReferences,
         voiceStyle: data.voiceStyle || 'narrator',
         durationType: data.durationType || 'full',
         status: 'pending',
@@ -82,42 +174,220 @@ export async function createPodcast(data: {
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
     };
+}
+
+export async function createPodcast(data: NewPodcast): Promise<Podcast> {
+    const podcast = newPodcast(data);
 
-    globalDb.__db_podcasts.push(podcast);
+    await getDataStore().write(state => {
+        state.podcasts.push(podcast);
+    });
     return podcast;
 }
 
 export async function getPodcast(id: string): Promise<Podcast | null> {
-    return globalDb.__db_podcasts.find(p => p.id === id) || null;
+    return getDataStore().read(state => state.podcasts.find(p => p.id === id) || null);
+}
+
+/**
+ * Get a podcast only if it belongs to the given user
+ */
+export async function getUserPodcast(id: string, userId: string): Promise<Podcast | null> {
+    const podcast = await getPodcast(id);
+    return podcast && podcast.userId === userId ? podcast : null;
+}
+
+/**
+ * Look up a shared podcast by its share slug
+ * Returns null unless the podcast has been made public
+ */
+export async function getPodcastByShareSlug(shareSlug: string): Promise<Podcast | null> {
+    return getDataStore().read(state =>
+        state.podcasts.find(p => p.shareSlug === shareSlug && p.isPublic) || null
+    );
+}
+
+/**
+ * Podcasts whose audio may be readable by anyone although the podcast isn't shared
+ */
+export async function getPodcastsWithPendingAudioAccess(): Promise<Podcast[]> {
+    return getDataStore().read(state => state.podcasts.filter(p => p.audioAccessPending && p.audioKey));
 }
 
 export async function getPodcastsByUser(userId: string): Promise<Podcast[]> {
-    return globalDb.__db_podcasts
+    return getDataStore().read(state => state.podcasts
         .filter(p => p.userId === userId)
-        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+}
+
+/**
+ * Apply updates in the same datastore write that checks the podcast's current state
+ */
+async function updatePodcastWhere(
+    id: string,
+    canUpdate: (podcast: Podcast, state: DatabaseState) => boolean,
+    updates: Partial<Podcast>
+): Promise<Podcast | null> {
+    const updated = await getDataStore().write(state => {
+        const index = state.podcasts.findIndex(p => p.id === id);
+        if (index === -1 || !canUpdate(state.podcasts[index], state)) return null;
+
+        state.podcasts[index] = {
+            ...state.podcasts[index],
+            ...updates,
+            updatedAt: new Date().toISOString(),
+        };
+
+        return state.podcasts[index];
+    });
+
+    if (updated) {
+        publishPodcastUpdate(updated);
+    }
+    return updated;
 }
 
 export async function updatePodcast(id: string, updates: Partial<Podcast>): Promise<Podcast | null> {
-    const index = globalDb.__db_podcasts.findIndex(p => p.id === id);
-    if (index === -1) return null;
+    return updatePodcastWhere(id, () => true, updates);
+}
 
-    globalDb.__db_podcasts[index] = {
-        ...globalDb.__db_podcasts[index],
-        ...updates,
-        updatedAt: new Date().toISOString(),
-    };
+/**
+ * Move a podcast's generation on to a new status
+ * Cancelled podcasts are left as they are, so a pipeline that passed its last
+ * cancellation check can't undo a cancel. Returns null if the podcast is gone or cancelled.
+ */
+export async function setPodcastStatus(
+    id: string,
+    status: Podcast['status'],
+    updates: Partial<Podcast> = {}
+): Promise<Podcast | null> {
+    return updatePodcastWhere(id, podcast => podcast.status !== 'cancelled', { ...updates, status });
+}
 
-    return globalDb.__db_podcasts[index];
+/**
+ * Mark a podcast as cancelled unless it has already finished
+ * Returns null if the podcast is gone or finished first.
+ */
+export async function cancelPodcast(id: string): Promise<Podcast | null> {
+    const finished: Podcast['status'][] = ['completed', 'failed', 'cancelled'];
+    return updatePodcastWhere(id, podcast => !finished.includes(podcast.status), { status: 'cancelled' });
+}
+
+/**
+ * Put a failed or cancelled podcast back to pending so it can be queued again
+ * Returns null if the podcast is gone, hasn't ended, or its last job is still winding down.
+ */
+export async function retryPodcast(id: string): Promise<Podcast | null> {
+    return updatePodcastWhere(
+        id,
+        (podcast, state) => (podcast.status === 'failed' || podcast.status === 'cancelled')
+            && !state.jobs.some(j => j.podcastId === id && isActiveJob(j)),
+        { status: 'pending', errorMessage: undefined }
+    );
 }
 
 export async function deletePodcast(id: string): Promise<boolean> {
-    const index = globalDb.__db_podcasts.findIndex(p => p.id === id);
-    if (index === -1) return false;
+    return getDataStore().write(state => {
+        const index = state.podcasts.findIndex(p => p.id === id);
+        if (index === -1) return false;
+
+        const [podcast] = state.podcasts.splice(index, 1);
+        state.transcripts = state.transcripts.filter(t => t.podcastId !== id);
+        state.jobs = state.jobs.filter(j => j.podcastId !== id);
+
+        // A series goes with its last episode
+        if (podcast.seriesId && !state.podcasts.some(p => p.seriesId === podcast.seriesId)) {
+            state.series = state.series.filter(s => s.id !== podcast.seriesId);
+        }
+
+        return true;
+    });
+}
+
+// ============== Series Operations ==============
+
+/**
+ * Turn a podcast into the first episode of a new series and add the others, in one write
+ * `episodes` holds the extract stage output of every episode, the podcast's own first.
+ * A podcast that is already in a series is returned as it is, so a resumed run can't
+ * create a second one. Returns null if the podcast was deleted.
+ */
+export async function createSeries(
+    podcastId: string,
+    data: { title: string; author?: string; sourceUrl?: string },
+    episodes: Partial<Podcast>[]
+): Promise<Podcast | null> {
+    const updated = await getDataStore().write(state => {
+        const index = state.podcasts.findIndex(p => p.id === podcastId);
+        if (index === -1) return null;
+
+        const podcast = state.podcasts[index];
+        if (podcast.seriesId) return podcast;
+
+        const now = new Date().toISOString();
+        const series: Series = {
+            id: uuidv4(),
+            userId: podcast.userId,
+            ...data,
+            episodeCount: episodes.length,
+            createdAt: now,
+            updatedAt: now,
+        };
+        state.series.push(series);
+
+        const [first, ...rest] = episodes;
+        state.podcasts[index] = {
+            ...podcast,
+            ...first,
+            seriesId: series.id,
+            episodeNumber: 1,
+            completedStages: [...(podcast.completedStages || []).filter(s => s !== 'extract'), 'extract'],
+            updatedAt: now,
+        };
+
+        rest.forEach((output, i) => {
+            state.podcasts.push({
+                ...newPodcast({
+                    userId: podcast.userId,
+                    seriesId: series.id,
+                    episodeNumber: i + 2,
+                    voiceStyle: podcast.voiceStyle,
+                    durationType: podcast.durationType,
+                }),
+                ...output,
+                completedStages: ['extract'],
+            });
+        });
+
+        return state.podcasts[index];
+    });
+
+    if (updated) {
+        publishPodcastUpdate(updated);
+    }
+    return updated;
+}
 
-    globalDb.__db_podcasts.splice(index, 1);
-    globalDb.__db_transcripts = globalDb.__db_transcripts.filter(t => t.podcastId !== id);
+/**
+ * Get a series only if it belongs to the given user
+ */
+export async function getUserSeries(id: string, userId: string): Promise<Series | null> {
+    return getDataStore().read(state => state.series.find(s => s.id === id && s.userId === userId) || null);
+}
 
-    return true;
+export async function getSeriesByUser(userId: string): Promise<Series[]> {
+    return getDataStore().read(state => state.series
+        .filter(s => s.userId === userId)
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
+}
+
+/**
+ * Episodes of a series, in order
+ */
+export async function getSeriesEpisodes(seriesId: string): Promise<Podcast[]> {
+    return getDataStore().read(state => state.podcasts
+        .filter(p => p.seriesId === seriesId)
+        .sort((a, b) => (a.episodeNumber || 0) - (b.episodeNumber || 0)));
 }
 
 // ============== Transcript Operations ==============
@@ -134,28 +404,224 @@ export async function createTranscriptSegment(data: {
         ...data,
     };
 
-    globalDb.__db_transcripts.push(segment);
+    await getDataStore().write(state => {
+        state.transcripts.push(segment);
+    });
     return segment;
 }
 
 export async function getTranscriptSegments(podcastId: string): Promise<TranscriptSegment[]> {
-    return globalDb.__db_transcripts
+    return getDataStore().read(state => state.transcripts
         .filter(t => t.podcastId === podcastId)
-        .sort((a, b) => a.sentenceIndex - b.sentenceIndex);
+        .sort((a, b) => a.sentenceIndex - b.sentenceIndex));
+}
+
+export interface TranscriptPage {
+    segments: TranscriptSegment[];
+    /** sentenceIndex to start the next page from, or null on the last page */
+    nextCursor: number | null;
+    totalSegments: number;
+    totalDuration: number;
+}
+
+/**
+ * Get one page of a podcast's transcript, starting at sentence `cursor`
+ * `from`/`to` (seconds) limit the page to segments overlapping that time range
+ */
+export async function getTranscriptPage(
+    podcastId: string,
+    { cursor = 0, limit, from, to }: { cursor?: number; limit: number; from?: number; to?: number }
+): Promise<TranscriptPage> {
+    const all = await getTranscriptSegments(podcastId);
+
+    const matching = all.filter(t =>
+        t.sentenceIndex >= cursor &&
+        (from === undefined || t.endTime > from) &&
+        (to === undefined || t.startTime < to)
+    );
+
+    return {
+        segments: matching.slice(0, limit),
+        nextCursor: matching.length > limit ? matching[limit].sentenceIndex : null,
+        totalSegments: all.length,
+        totalDuration: all.reduce((max, t) => Math.max(max, t.endTime), 0),
+    };
 }
 
+/**
+ * Store the transcript for a podcast, replacing any segments from an earlier run
+ */
 export async function createTranscriptBatch(
     podcastId: string,
-    segments: { text: string; startTime: number; endTime: number }[]
+    segments: { text: string; startTime: number; endTime: number; words?: TranscriptWord[] }[]
 ): Promise<void> {
-    segments.forEach((seg, index) => {
-        globalDb.__db_transcripts.push({
-            id: uuidv4(),
-            podcastId,
-            sentenceIndex: index,
-            text: seg.text,
-            startTime: seg.startTime,
-            endTime: seg.endTime,
+    await getDataStore().write(state => {
+        state.transcripts = state.transcripts.filter(t => t.podcastId !== podcastId);
+
+        segments.forEach((seg, index) => {
+            state.transcripts.push({
+                id: uuidv4(),
+                podcastId,
+                sentenceIndex: index,
+                text: seg.text,
+                startTime: seg.startTime,
+                endTime: seg.endTime,
+                words: seg.words,
+            });
         });
     });
 }
+
+// ============== Job Operations ==============
+
+function isActiveJob(job: Job): boolean {
+    return job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * Queue a job for a podcast, unless it already has one waiting or running
+ * The check and the insert are one write, so two callers can't both queue a job.
+ * Returns null if the podcast already has an active job.
+ */
+export async function createJobUnlessActive(data: {
+    type: Job['type'];
+    podcastId: string;
+    maxAttempts: number;
+}): Promise<Job | null> {
+    return getDataStore().write(state => {
+        if (state.jobs.some(j => j.podcastId === data.podcastId && isActiveJob(j))) return null;
+
+        const now = new Date().toISOString();
+        const job: Job = {
+            id: uuidv4(),
+            ...data,
+            status: 'queued',
+            attempts: 0,
+            runAt: now,
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        state.jobs.push(job);
+        return { ...job };
+    });
+}
+
+export async function getJobsByStatus(status: Job['status']): Promise<Job[]> {
+    return getDataStore().read(state => state.jobs.filter(j => j.status === status));
+}
+
+/**
+ * Apply updates in the same datastore write that checks the job's current state
+ */
+async function updateJobWhere(id: string, canUpdate: (job: Job) => boolean, updates: Partial<Job>): Promise<Job | null> {
+    return getDataStore().write(state => {
+        const index = state.jobs.findIndex(j => j.id === id);
+        if (index === -1 || !canUpdate(state.jobs[index])) return null;
+
+        state.jobs[index] = {
+            ...state.jobs[index],
+            ...updates,
+            updatedAt: new Date().toISOString(),
+        };
+
+        return state.jobs[index];
+    });
+}
+
+export async function updateJob(id: string, updates: Partial<Job>): Promise<Job | null> {
+    return updateJobWhere(id, () => true, updates);
+}
+
+/**
+ * Record how a running job ended
+ * A job cancelled while it was finishing stays cancelled. Returns null if it isn't running.
+ */
+export async function finishJob(id: string, status: 'completed' | 'failed', updates: Partial<Job> = {}): Promise<Job | null> {
+    return updateJobWhere(id, job => job.status === 'running', { ...updates, status });
+}
+
+/**
+ * Whether a podcast has a job waiting or running
+ */
+export async function hasActiveJob(podcastId: string): Promise<boolean> {
+    return getDataStore().read(state => state.jobs.some(j => j.podcastId === podcastId && isActiveJob(j)));
+}
+
+/**
+ * Mark a podcast's queued and running jobs as cancelled so no worker picks them up again
+ */
+export async function cancelJobsForPodcast(podcastId: string): Promise<number> {
+    return getDataStore().write(state => {
+        const now = new Date().toISOString();
+        const active = state.jobs.filter(j => j.podcastId === podcastId && isActiveJob(j));
+
+        for (const job of active) {
+            job.status = 'cancelled';
+            job.updatedAt = now;
+        }
+
+        return active.length;
+    });
+}
+
+/**
+ * Atomically mark up to `limit` due jobs as running (oldest first)
+ */
+export async function claimJobs(limit: number): Promise<Job[]> {
+    return getDataStore().write(state => {
+        const now = new Date().toISOString();
+
+        const due = state.jobs
+            .filter(j => j.status === 'queued' && j.runAt <= now)
+            .sort((a, b) => a.runAt.localeCompare(b.runAt))
+            .slice(0, limit);
+
+        for (const job of due) {
+            job.status = 'running';
+            job.attempts += 1;
+            job.heartbeatAt = now;
+            job.updatedAt = now;
+        }
+
+        return due.map(j => ({ ...j }));
+    });
+}
+
+// ============== Feed Token Operations ==============
+
+export async function getFeedTokenForUser(userId: string): Promise<FeedToken | null> {
+    return getDataStore().read(state => state.feedTokens.find(f => f.userId === userId) || null);
+}
+
+export async function getFeedToken(token: string): Promise<FeedToken | null> {
+    return getDataStore().read(state => state.feedTokens.find(f => f.token === token) || null);
+}
+
+/**
+ * Issue a new feed token for a user, revoking any previous one
+ */
+export async function createFeedToken(userId: string): Promise<FeedToken> {
+    const feedToken: FeedToken = {
+        token: randomBytes(24).toString('base64url'),
+        userId,
+        createdAt: new Date().toISOString(),
+    };
+
+    await getDataStore().write(state => {
+        state.feedTokens = state.feedTokens.filter(f => f.userId !== userId);
+        state.feedTokens.push(feedToken);
+    });
+    return feedToken;
+}
+
+/**
+ * Revoke a user's feed token, returning whether there was one
+ */
+export async function revokeFeedToken(userId: string): Promise<boolean> {
+    return getDataStore().write(state => {
+        const before = state.feedTokens.length;
+        state.feedTokens = state.feedTokens.filter(f => f.userId !== userId);
+        return state.feedTokens.length < before;
+    });
+}
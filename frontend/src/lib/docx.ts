@@ -0,0 +1,153 @@
+/**
+ * DOCX Extraction
+ * Reads a Word document (word/document.xml) as blocks:
+ * - paragraph styles give headings, the title, quotes and list items
+ *   (styles are looked up by name in word/styles.xml, since style ids are localised)
+ * - table rows become one paragraph each
+ * - the core properties (docProps/core.xml) give the title, authors and language
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { AnyNode, Element, Text } from 'domhandler';
+import { openZip } from './zip';
+import type { ContentBlock } from './readability';
+
+export interface DocxContent {
+    title?: string;
+    authors: string[];
+    language?: string;
+    blocks: ContentBlock[];
+}
+
+function localName(el: Element): string {
+    return el.tagName.replace(/^.*:/, '');
+}
+
+function childElements(el: Element, name?: string): Element[] {
+    return el.children.filter((child): child is Element => child.type === 'tag' && (!name || localName(child) === name));
+}
+
+/**
+ * Style id → lowercase style name ("Heading1" → "heading 1")
+ */
+function readStyleNames($: CheerioAPI | null): Map<string, string> {
+    const names = new Map<string, string>();
+    if (!$) return names;
+
+    $('w\\:style').each((_, style) => {
+        const id = style.attribs['w:styleId'];
+        const name = $(style).children('w\\:name').attr('w:val');
+        if (id && name) names.set(id, name.toLowerCase());
+    });
+    return names;
+}
+
+/**
+ * Text of a paragraph: runs, tabs and breaks (deleted revisions are skipped)
+ */
+function paragraphText(paragraph: Element): string {
+    let text = '';
+    const visit = (node: AnyNode) => {
+        if (node.type !== 'tag') return;
+        const el = node as Element;
+        switch (localName(el)) {
+            case 't':
+                text += el.children.map(child => child.type === 'text' ? (child as Text).data : '').join('');
+                return;
+            case 'tab':
+            case 'br':
+            case 'cr':
+                text += ' ';
+                return;
+            case 'del':
+            case 'pPr':
+            case 'rPr':
+            case 'instrText':
+                return;
+        }
+        el.children.forEach(visit);
+    };
+    paragraph.children.forEach(visit);
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function readParagraph(paragraph: Element, styleNames: Map<string, string>): ContentBlock | { type: 'title'; text: string } | null {
+    const text = paragraphText(paragraph);
+    if (!text) return null;
+
+    const properties = childElements(paragraph, 'pPr')[0];
+    const styleId = properties && childElements(properties, 'pStyle')[0]?.attribs['w:val'];
+    const style = (styleId && styleNames.get(styleId)) || (styleId || '').toLowerCase();
+
+    if (style === 'title') return { type: 'title', text };
+
+    const heading = style.match(/^heading\s*([1-6])$/);
+    if (heading) return { type: 'heading', text, level: Number(heading[1]) };
+
+    if (/quote/.test(style)) return { type: 'quote', text };
+
+    const isList = (properties && childElements(properties, 'numPr').length > 0) || /^list/.test(style);
+    return { type: isList ? 'list-item' : 'paragraph', text };
+}
+
+/**
+ * Read a Word document
+ */
+export function extractDocx(data: Buffer): DocxContent {
+    const zip = openZip(data);
+
+    const documentXml = zip.readText('word/document.xml');
+    if (!documentXml) {
+        throw new Error('Invalid DOCX: word/document.xml not found');
+    }
+
+    const stylesXml = zip.readText('word/styles.xml');
+    const styleNames = readStyleNames(stylesXml ? cheerio.load(stylesXml, { xml: true }) : null);
+
+    const $ = cheerio.load(documentXml, { xml: true });
+    const body = $('w\\:body').get(0);
+
+    let title: string | undefined;
+    const blocks: ContentBlock[] = [];
+
+    const readBody = (container: Element) => {
+        for (const el of childElements(container)) {
+            const name = localName(el);
+
+            if (name === 'p') {
+                const block = readParagraph(el, styleNames);
+                if (block?.type === 'title') {
+                    title = title || block.text;
+                    blocks.push({ type: 'heading', text: block.text, level: 1 });
+                } else if (block) {
+                    blocks.push(block);
+                }
+            } else if (name === 'tbl') {
+                childElements(el, 'tr').forEach(row => {
+                    const cells = childElements(row, 'tc')
+                        .map(cell => childElements(cell, 'p').map(paragraphText).filter(Boolean).join(' '))
+                        .filter(Boolean);
+                    if (cells.length) blocks.push({ type: 'paragraph', text: cells.join('; ') });
+                });
+            } else if (name === 'sdt') {
+                // Content controls wrap ordinary paragraphs
+                childElements(el, 'sdtContent').forEach(readBody);
+            }
+        }
+    };
+    if (body) readBody(body);
+
+    const coreXml = zip.readText('docProps/core.xml');
+    const $core = coreXml ? cheerio.load(coreXml, { xml: true }) : null;
+    const core = (selector: string) => $core?.(selector).first().text().replace(/\s+/g, ' ').trim() || undefined;
+
+    const creator = core('dc\\:creator');
+
+    return {
+        title: core('dc\\:title') || title,
+        authors: creator ? creator.split(/\s*;\s*/).filter(Boolean) : [],
+        language: core('dc\\:language'),
+        blocks,
+    };
+}
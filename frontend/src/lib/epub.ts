@@ -0,0 +1,184 @@
+/**
+ * EPUB Extraction
+ * Reads an EPUB book as chapters of blocks:
+ * - the package document (OPF) gives the metadata and the reading order (spine)
+ * - chapter titles come from the table of contents (EPUB 3 nav or EPUB 2 NCX)
+ * - spine files without a TOC entry continue the chapter before them, since
+ *   converters often split one chapter across several files
+ */
+
+import path from 'path';
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import { openZip, ZipArchive } from './zip';
+import { ContentBlock, extractDocumentBlocks } from './readability';
+
+export interface EpubChapter {
+    title: string;
+    blocks: ContentBlock[];
+    wordCount: number;
+}
+
+export interface EpubContent {
+    title?: string;
+    authors: string[];
+    language?: string;
+    publisher?: string;
+    /** ISO 8601 */
+    publishedAt?: string;
+    chapters: EpubChapter[];
+}
+
+const XHTML_TYPES = /^application\/xhtml\+xml$|^text\/html$/;
+
+function localName(el: Element): string {
+    return el.tagName.replace(/^.*:/, '').toLowerCase();
+}
+
+/**
+ * Elements matched by local name, so "dc:title", "opf:item" and "item" all work
+ */
+function byLocalName($: CheerioAPI, name: string): Element[] {
+    return $('*').toArray().filter((el): el is Element => el.type === 'tag' && localName(el) === name);
+}
+
+function loadXml(zip: ZipArchive, name: string): CheerioAPI | null {
+    const xml = zip.readText(name);
+    return xml === null ? null : cheerio.load(xml, { xml: true });
+}
+
+/**
+ * Archive path of an href in a file at `base` (hrefs are URL-encoded and may have fragments)
+ */
+function resolveHref(base: string, href: string): string {
+    const file = href.split('#')[0];
+    let decoded = file;
+    try {
+        decoded = decodeURIComponent(file);
+    } catch {
+        // Not encoded after all
+    }
+    return path.posix.normalize(path.posix.join(path.posix.dirname(base), decoded));
+}
+
+function text($: CheerioAPI, el: Element | undefined): string | undefined {
+    const value = el ? $(el).text().replace(/\s+/g, ' ').trim() : '';
+    return value || undefined;
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Chapter titles by archive path, from the EPUB 3 nav document or the EPUB 2 NCX
+ * The first entry pointing into a file wins
+ */
+function readTableOfContents(zip: ZipArchive, $opf: CheerioAPI, opfPath: string, manifest: Map<string, Element>): Map<string, string> {
+    const titles = new Map<string, string>();
+    const add = (file: string, title: string | undefined) => {
+        if (title && !titles.has(file)) titles.set(file, title);
+    };
+
+    const nav = Array.from(manifest.values()).find(item => /\bnav\b/.test(item.attribs.properties || ''));
+    if (nav) {
+        const navPath = resolveHref(opfPath, nav.attribs.href);
+        const html = zip.readText(navPath);
+        if (html) {
+            const $ = cheerio.load(html);
+            const toc = $('nav').filter((_, el) => el.attribs['epub:type'] === 'toc').first();
+            (toc.length ? toc : $('nav').first()).find('a[href]').each((_, link) => {
+                add(resolveHref(navPath, link.attribs.href), text($, link));
+            });
+        }
+    }
+
+    if (!titles.size) {
+        const spine = byLocalName($opf, 'spine')[0];
+        const ncx = manifest.get(spine?.attribs.toc || '')
+            || Array.from(manifest.values()).find(item => item.attribs['media-type'] === 'application/x-dtbncx+xml');
+        if (ncx) {
+            const ncxPath = resolveHref(opfPath, ncx.attribs.href);
+            const $ncx = loadXml(zip, ncxPath);
+            if ($ncx) {
+                byLocalName($ncx, 'navpoint').forEach(point => {
+                    const label = $ncx(point).children().filter((_, el) => localName(el) === 'navlabel').first();
+                    const content = $ncx(point).children().filter((_, el) => localName(el) === 'content').first();
+                    const src = content.attr('src');
+                    if (src) add(resolveHref(ncxPath, src), label.text().replace(/\s+/g, ' ').trim());
+                });
+            }
+        }
+    }
+
+    return titles;
+}
+
+function countWords(blocks: ContentBlock[]): number {
+    return blocks.reduce((sum, block) => sum + block.text.split(/\s+/).filter(Boolean).length, 0);
+}
+
+/**
+ * Read an EPUB book
+ */
+export function extractEpub(data: Buffer): EpubContent {
+    const zip = openZip(data);
+
+    const $container = loadXml(zip, 'META-INF/container.xml');
+    const rootfile = $container && byLocalName($container, 'rootfile')[0];
+    const opfPath = rootfile?.attribs['full-path'];
+    const $opf = opfPath ? loadXml(zip, opfPath) : null;
+    if (!opfPath || !$opf) {
+        throw new Error('Invalid EPUB: package document not found');
+    }
+
+    const meta = (name: string) => byLocalName($opf, name).map(el => text($opf, el)).filter((value): value is string => !!value);
+
+    const manifest = new Map<string, Element>();
+    byLocalName($opf, 'item').forEach(item => {
+        if (item.attribs.id && item.attribs.href) manifest.set(item.attribs.id, item);
+    });
+
+    const tocTitles = readTableOfContents(zip, $opf, opfPath, manifest);
+
+    const chapters: EpubChapter[] = [];
+    for (const itemref of byLocalName($opf, 'itemref')) {
+        const item = manifest.get(itemref.attribs.idref);
+        // Non-linear items (footnote pages, pop-ups) aren't part of the reading order
+        if (!item || itemref.attribs.linear === 'no' || !XHTML_TYPES.test(item.attribs['media-type'] || '')) continue;
+
+        const file = resolveHref(opfPath, item.attribs.href);
+        const html = zip.readText(file);
+        if (!html) continue;
+
+        const blocks = extractDocumentBlocks(html);
+        const tocTitle = tocTitles.get(file);
+        const previous = chapters[chapters.length - 1];
+
+        if (!tocTitle && previous && previous.wordCount > 0 && tocTitles.size) {
+            previous.blocks.push(...blocks);
+            previous.wordCount += countWords(blocks);
+            continue;
+        }
+
+        const heading = blocks.find(block => block.type === 'heading');
+        chapters.push({
+            title: tocTitle || heading?.text || `Chapter ${chapters.length + 1}`,
+            blocks,
+            wordCount: countWords(blocks),
+        });
+    }
+
+    return {
+        title: meta('title')[0],
+        authors: meta('creator'),
+        language: meta('language')[0],
+        publisher: meta('publisher')[0],
+        publishedAt: toIsoDate(meta('date')[0]),
+        // Cover and title pages are often images only
+        chapters: chapters.filter(chapter => chapter.wordCount > 0),
+    };
+}
@@ -0,0 +1,36 @@
+/**
+ * Podcast Change Events
+ * In-process notifications whenever a podcast record is updated (status, progress, ...)
+ * Used to push live updates to clients over Server-Sent Events
+ */
+
+import { EventEmitter } from 'events';
+import type { Podcast } from './db';
+
+type PodcastListener = (podcast: Podcast) => void;
+
+// Using globalThis to ensure singleton across hot reloads
+function getEmitter(): EventEmitter {
+    const globalEvents = globalThis as typeof globalThis & { __podcast_events?: EventEmitter };
+    if (!globalEvents.__podcast_events) {
+        globalEvents.__podcast_events = new EventEmitter();
+        // One listener per open browser tab - no meaningful upper bound
+        globalEvents.__podcast_events.setMaxListeners(0);
+    }
+    return globalEvents.__podcast_events;
+}
+
+export function publishPodcastUpdate(podcast: Podcast): void {
+    getEmitter().emit(podcast.id, podcast);
+}
+
+/**
+ * Listen for updates to one podcast. Returns an unsubscribe function.
+ */
+export function subscribeToPodcast(podcastId: string, listener: PodcastListener): () => void {
+    const emitter = getEmitter();
+    emitter.on(podcastId, listener);
+    return () => {
+        emitter.off(podcastId, listener);
+    };
+}
@@ -1,30 +1,118 @@
 /**
  * Content Extractor Service
- * Extracts text content from URLs (including Twitter/X) or processes raw text
- * Includes intelligent author detection and content cleaning
+ * Extracts text content from URLs (including Twitter/X and PDFs), uploaded documents
+ * (PDF, EPUB, DOCX, Markdown, saved HTML) or processes raw text
+ * Includes intelligent author detection; main content is found by readability.ts
+ * - UPLOAD_MAX_MB: largest document read, uploaded or linked (default 25)
  */
 
+import * as cheerio from 'cheerio';
 import { isTwitterUrl, fetchTwitterThread } from './twitter';
+import { ContentBlock, extractArticleBlocks, blocksToText } from './readability';
+import { extractPageMetadata } from './metadata';
+import { extractPdf } from './pdf';
+import { extractEpub } from './epub';
+import { extractDocx } from './docx';
+import { extractMarkdown } from './markdown';
 
 export interface ExtractedContent {
     title: string;
     content: string;
+    /** All authors as one display string ("A, B and C") */
     author?: string;
+    authors?: string[];
     authorBio?: string;
-    source?: 'twitter' | 'web' | 'text';
+    canonicalUrl?: string;
+    /** ISO 8601 */
+    publishedAt?: string;
+    siteName?: string;
+    language?: string;
+    imageUrl?: string;
+    source?: 'twitter' | 'web' | 'text' | DocumentType;
+    /** Structure of the article body, for web pages and documents */
+    blocks?: ContentBlock[];
+}
+
+/**
+ * An uploaded file to read
+ */
+export interface SourceDocument {
+    data: Buffer;
+    name: string;
+    contentType: string;
+}
+
+export interface ExtractOptions {
+    /** Leave out the references section of papers */
+    skipReferences?: boolean;
+    /** EPUB chapter to read (index into listDocumentChapters), instead of the whole book */
+    chapter?: number;
+}
+
+export type DocumentType = 'pdf' | 'epub' | 'docx' | 'markdown' | 'html';
+
+export interface DocumentChapter {
+    index: number;
+    title: string;
+    wordCount: number;
+}
+
+export const MAX_DOCUMENT_BYTES = parseInt(process.env.UPLOAD_MAX_MB || '25', 10) * 1024 * 1024;
+
+// Uploads are matched by MIME type, or by extension when browsers send none (or octet-stream)
+const DOCUMENT_TYPES: { type: DocumentType; contentTypes: RegExp; extensions: RegExp }[] = [
+    { type: 'pdf', contentTypes: /^application\/(x-)?pdf$/i, extensions: /\.pdf$/i },
+    { type: 'epub', contentTypes: /^application\/epub\+zip$/i, extensions: /\.epub$/i },
+    { type: 'docx', contentTypes: /^application\/vnd\.openxmlformats-officedocument\.wordprocessingml\.document$/i, extensions: /\.docx$/i },
+    { type: 'markdown', contentTypes: /^text\/(x-)?markdown$/i, extensions: /\.(md|markdown|mdown|mkd)$/i },
+    { type: 'html', contentTypes: /^(text\/html|application\/xhtml\+xml)$/i, extensions: /\.(html?|xhtml)$/i },
+];
+
+function isPdf(contentType: string, name: string): boolean {
+    // Servers often send PDFs as octet-stream, so fall back to the extension unless it's HTML
+    return /application\/(x-)?pdf/i.test(contentType) || (/\.pdf$/i.test(name) && !/html/i.test(contentType));
+}
+
+/**
+ * Format of an uploaded file, or null if extractContent can't read it
+ */
+export function getDocumentType(name: string, contentType: string): DocumentType | null {
+    const mimeType = contentType.split(';')[0].trim();
+    const byContentType = DOCUMENT_TYPES.find(({ contentTypes }) => contentTypes.test(mimeType));
+    if (byContentType) return byContentType.type;
+
+    return DOCUMENT_TYPES.find(({ extensions }) => extensions.test(name))?.type || null;
+}
+
+/**
+ * Whether an uploaded file is a format extractContent can read
+ */
+export function isSupportedDocument(name: string, contentType: string): boolean {
+    return getDocumentType(name, contentType) !== null;
+}
+
+/**
+ * "A", "A and B", "A, B and C"
+ */
+function joinNames(names: string[]): string | undefined {
+    if (names.length <= 1) return names[0];
+    return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
 /**
  * Extract author information from HTML
+ * Used when the page has no structured author metadata (see metadata.ts), and for the bio
  */
-function extractAuthorInfo(html: string): { author?: string; authorBio?: string } {
-    let author: string | undefined;
+function extractAuthorInfo(html: string, knownAuthor?: string): { author?: string; authorBio?: string } {
+    let author = knownAuthor;
     let authorBio: string | undefined;
 
     // Common author patterns
-    const authorPatterns = [
-        // <meta name="author" content="...">
-        /<meta\s+name=["']author["']\s+content=["']([^"']+)["']/i,
+    const authorPatterns = knownAuthor ? [] : [
         // <span class="author">...</span> or similar
         /<(?:span|div|a)[^>]*class=["'][^"']*author[^"']*["'][^>]*>([^<]+)</i,
         // "By Author Name" pattern
@@ -45,7 +133,7 @@ function extractAuthorInfo(html: string): { author?: string; authorBio?: string
     if (author) {
         // Look for bio patterns
         const bioPatterns = [
-            new RegExp(`${author}[^.]*is\\s+(?:a|an)\\s+([^.]+\\.)`, 'i'),
+            new RegExp(`${escapeRegExp(author)}[^.]*is\\s+(?:a|an)\\s+([^.]+\\.)`, 'i'),
             /<(?:p|div|span)[^>]*class=["'][^"']*(?:bio|about|description)[^"']*["'][^>]*>([^<]{30,200})/i,
         ];
 
@@ -61,94 +149,238 @@ function extractAuthorInfo(html: string): { author?: string; authorBio?: string
     return { author, authorBio };
 }
 
+function formatDate(iso: string): string {
+    return new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
 /**
- * Find where the main article content starts
- * Returns the index of the first "real" paragraph
+ * Generate intro text for the article: who wrote it, and where and when it was published
  */
-function findMainContentStart(paragraphs: string[]): number {
-    // Patterns that indicate metadata/sidebar content
-    const metadataPatterns = [
-        /^is\s+a\s+/i,  // "is a researcher..."
-        /^edited\s+by/i,
-        /^\d+,?\d*\s+words?$/i,
-        /^save$/i,
-        /^share$/i,
-        /^history\s+of/i,
-        /^syndicate/i,
-        /^listen\s+to/i,
-        /^subscribe/i,
-        /^follow\s+us/i,
-        /^posted\s+on/i,
-        /^published/i,
-        /^tags?:/i,
-        /^categories?:/i,
-        /^related/i,
-        /^more\s+from/i,
-        /^sign\s+up/i,
-    ];
+function generateIntro(
+    title: string,
+    { authors = [], authorBio, siteName, publishedAt }: Pick<ExtractedContent, 'authors' | 'authorBio' | 'siteName' | 'publishedAt'>
+): string {
+    if (!authors.length && !siteName && !publishedAt) {
+        return '';
+    }
 
-    // Find the first paragraph that looks like article content
-    for (let i = 0; i < paragraphs.length; i++) {
-        const p = paragraphs[i];
+    let intro = `This article`;
 
-        // Skip very short paragraphs
-        if (p.length < 80) continue;
+    if (title && !title.includes('|') && title.length < 80) {
+        intro = `"${title}"`;
+    }
 
-        // Check if it matches metadata patterns
-        let isMetadata = false;
-        for (const pattern of metadataPatterns) {
-            if (pattern.test(p)) {
-                isMetadata = true;
-                break;
-            }
+    if (authors.length) {
+        intro += ` is written by ${joinNames(authors)}`;
+
+        // A bio only makes sense for a single author
+        if (authorBio && authors.length === 1) {
+            // Clean up bio
+            const cleanBio = authorBio
+                .replace(/^is\s+/i, '')
+                .replace(/\.$/, '')
+                .trim();
+            intro += `, who is ${cleanBio}`;
         }
-        if (isMetadata) continue;
 
-        // Check if it starts with a capital letter (typical article start)
-        // and has proper sentence structure
-        if (/^[A-Z]/.test(p) && p.includes(' ') && p.length > 100) {
-            return i;
+        intro += '.';
+        if (siteName || publishedAt) intro += ' It was';
+    } else {
+        intro += ' was';
+    }
+
+    if (siteName) intro += ` published by ${siteName}`;
+    if (publishedAt) intro += `${siteName ? '' : ' published'} on ${formatDate(publishedAt)}`;
+    if (siteName || publishedAt) intro += '.';
+
+    intro += '\n\n';
+
+    return intro;
+}
+
+/**
+ * Filename without its extension, as a last-resort title
+ */
+function titleFromFilename(name: string): string {
+    return name.replace(/\.[a-z0-9]+$/i, '').replace(/[_]+/g, ' ').trim() || 'Untitled Document';
+}
+
+/**
+ * Last segment of a URL path, for display - left encoded if it doesn't decode
+ */
+function fileNameFromPath(pathname: string): string {
+    const segment = pathname.split('/').pop() || '';
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+}
+
+/**
+ * Narration text for a document read as blocks: intro, then the blocks
+ */
+function fromDocumentBlocks(
+    source: DocumentType,
+    title: string,
+    blocks: ContentBlock[],
+    details: Pick<ExtractedContent, 'authors' | 'publishedAt' | 'siteName' | 'language'> = {}
+): ExtractedContent {
+    if (!blocks.length) {
+        throw new Error('No text found in document');
+    }
+
+    const authors = details.authors || [];
+    const content = generateIntro(title, details) + blocksToText(blocks);
+
+    return {
+        title: title.slice(0, 200),
+        content,
+        ...details,
+        author: joinNames(authors),
+        authors,
+        source,
+        blocks,
+    };
+}
+
+/**
+ * Extract content from PDF data
+ */
+async function extractFromPdf(data: Uint8Array, name: string, options: ExtractOptions): Promise<ExtractedContent> {
+    const pdf = await extractPdf(data, { skipReferences: options.skipReferences });
+
+    if (!pdf.blocks.length) {
+        throw new Error('No text found in PDF (scanned documents are not supported)');
+    }
+
+    const extracted = fromDocumentBlocks('pdf', pdf.title || titleFromFilename(name), pdf.blocks, { authors: pdf.authors });
+    console.log(`📝 Extracted PDF: ${extracted.title} (${pdf.pageCount} pages, ${extracted.content.length} chars)`);
+    return extracted;
+}
+
+/**
+ * Extract content from an EPUB book: one chapter, or the whole book
+ */
+function extractFromEpub(data: Buffer, name: string, options: ExtractOptions): ExtractedContent {
+    const book = extractEpub(data);
+    const bookTitle = book.title || titleFromFilename(name);
+    const details = { authors: book.authors, siteName: book.publisher, publishedAt: book.publishedAt, language: book.language };
+
+    if (options.chapter !== undefined) {
+        const chapter = book.chapters[options.chapter];
+        if (!chapter) {
+            throw new Error(`Chapter ${options.chapter + 1} not found (the book has ${book.chapters.length})`);
         }
+
+        console.log(`📝 Extracted EPUB chapter: ${chapter.title} (${chapter.wordCount} words)`);
+        return fromDocumentBlocks('epub', `${bookTitle}: ${chapter.title}`, chapter.blocks, details);
     }
 
-    return 0;
+    // Announce each chapter unless it already starts with its title
+    const blocks = book.chapters.flatMap(chapter => chapter.blocks[0]?.type === 'heading' && chapter.blocks[0].text === chapter.title
+        ? chapter.blocks
+        : [{ type: 'heading' as const, text: chapter.title, level: 2 }, ...chapter.blocks]);
+
+    console.log(`📝 Extracted EPUB: ${bookTitle} (${book.chapters.length} chapters)`);
+    return fromDocumentBlocks('epub', bookTitle, blocks, details);
 }
 
 /**
- * Generate intro text for the article
+ * Chapters of an uploaded document, for choosing one to narrate
+ * Only EPUB books have chapters; other formats return an empty list
  */
-function generateIntro(title: string, author?: string, authorBio?: string): string {
-    if (!author) {
-        return '';
+export function listDocumentChapters(document: SourceDocument): DocumentChapter[] {
+    if (getDocumentType(document.name, document.contentType) !== 'epub') {
+        return [];
     }
 
-    let intro = `This article`;
+    return extractEpub(document.data).chapters.map((chapter, index) => ({
+        index,
+        title: chapter.title,
+        wordCount: chapter.wordCount,
+    }));
+}
 
-    if (title && !title.includes('|') && title.length < 80) {
-        intro = `"${title}"`;
+/**
+ * Extract content from an uploaded document
+ */
+export async function extractFromDocument(document: SourceDocument, options: ExtractOptions = {}): Promise<ExtractedContent> {
+    console.log(`📄 Reading document: ${document.name} (${document.contentType})`);
+
+    switch (getDocumentType(document.name, document.contentType)) {
+        case 'pdf':
+            return extractFromPdf(new Uint8Array(document.data), document.name, options);
+        case 'epub':
+            return extractFromEpub(document.data, document.name, options);
+        case 'docx': {
+            const docx = extractDocx(document.data);
+            const extracted = fromDocumentBlocks('docx', docx.title || titleFromFilename(document.name), docx.blocks, {
+                authors: docx.authors,
+                language: docx.language,
+            });
+            console.log(`📝 Extracted DOCX: ${extracted.title} (${extracted.content.length} chars)`);
+            return extracted;
+        }
+        case 'markdown': {
+            const markdown = extractMarkdown(document.data.toString('utf8'));
+            const extracted = fromDocumentBlocks('markdown', markdown.title || titleFromFilename(document.name), markdown.blocks, {
+                authors: markdown.authors,
+            });
+            console.log(`📝 Extracted Markdown: ${extracted.title} (${extracted.content.length} chars)`);
+            return extracted;
+        }
+        case 'html':
+            // Saved pages have no URL of their own - links in them are resolved only if absolute
+            return extractFromHtml(document.data.toString('utf8'), 'about:blank', 'html', titleFromFilename(document.name));
+        default:
+            throw new Error(`Unsupported document type: ${document.name}`);
     }
+}
 
-    intro += ` is written by ${author}`;
+/**
+ * Read a linked document, stopping once it's larger than an upload may be
+ */
+async function readDocumentBody(response: Response): Promise<Uint8Array> {
+    const tooLarge = () => new Error(`Document is too large (max ${Math.round(MAX_DOCUMENT_BYTES / 1024 / 1024)} MB)`);
 
-    if (authorBio) {
-        // Clean up bio
-        const cleanBio = authorBio
-            .replace(/^is\s+/i, '')
-            .replace(/\.$/, '')
-            .trim();
-        intro += `, who is ${cleanBio}`;
+    if (Number(response.headers.get('content-length')) > MAX_DOCUMENT_BYTES) {
+        await response.body?.cancel();
+        throw tooLarge();
+    }
+    if (!response.body) {
+        return new Uint8Array(await response.arrayBuffer());
     }
 
-    intro += '.\n\n';
+    // Content-Length can be missing or wrong, so count what actually arrives
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
 
-    return intro;
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        size += chunk.value.length;
+        if (size > MAX_DOCUMENT_BYTES) {
+            await reader.cancel();
+            throw tooLarge();
+        }
+        chunks.push(chunk.value);
+    }
+
+    // A plain Uint8Array - pdf.js refuses Buffers
+    const data = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+        data.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return data;
 }
 
 /**
  * Extract content from a URL
- * Automatically detects Twitter/X URLs and routes accordingly
+ * Automatically detects Twitter/X URLs and PDFs and routes accordingly
  */
-export async function extractFromUrl(url: string): Promise<ExtractedContent> {
+export async function extractFromUrl(url: string, options: ExtractOptions = {}): Promise<ExtractedContent> {
     // Check if it's a Twitter/X URL
     if (isTwitterUrl(url)) {
         console.log('🐦 Detected Twitter/X URL');
@@ -157,6 +389,7 @@ export async function extractFromUrl(url: string): Promise<ExtractedContent> {
             title: twitterContent.title,
             content: twitterContent.content,
             author: twitterContent.author,
+            authors: twitterContent.author ? [twitterContent.author] : undefined,
             source: 'twitter',
         };
     }
@@ -174,77 +407,65 @@ export async function extractFromUrl(url: string): Promise<ExtractedContent> {
         throw new Error(`Failed to fetch URL: ${response.status}`);
     }
 
-    const html = await response.text();
+    const pathname = new URL(url).pathname;
+    if (isPdf(response.headers.get('content-type') || '', pathname)) {
+        const name = fileNameFromPath(pathname);
+        const extracted = await extractFromPdf(await readDocumentBody(response), name, options);
+        return { ...extracted, canonicalUrl: url };
+    }
 
-    // Extract title
-    const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-    let title = titleMatch ? titleMatch[1].trim() : 'Untitled Article';
-    // Clean title (remove site name after | or -)
-    title = title.split(/\s*[|\-–—]\s*/)[0].trim().slice(0, 100);
+    return extractFromHtml(await response.text(), url, 'web');
+}
 
-    // Extract author info
-    const { author, authorBio } = extractAuthorInfo(html);
+/**
+ * Extract the article from an HTML page, fetched or uploaded
+ */
+function extractFromHtml(html: string, pageUrl: string, source: 'web' | 'html', fallbackTitle = 'Untitled Article'): ExtractedContent {
+    const metadata = extractPageMetadata(html, pageUrl);
+    const title = (metadata.title || fallbackTitle).slice(0, 200);
+
+    // Extract author info (the bio, and a best guess at the author when metadata has none)
+    const guessed = extractAuthorInfo(html, metadata.authors.length === 1 ? metadata.authors[0] : undefined);
+    const authors = metadata.authors.length ? metadata.authors : guessed.author ? [guessed.author] : [];
+    const { authorBio } = guessed;
+    const author = joinNames(authors);
     console.log(`👤 Author detected: ${author || 'Unknown'}`);
 
-    // Remove non-content elements
-    let cleanHtml = html
-        .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-        .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-        .replace(/<nav[^>]*>[\s\S]*?<\/nav>/gi, '')
-        .replace(/<header[^>]*>[\s\S]*?<\/header>/gi, '')
-        .replace(/<footer[^>]*>[\s\S]*?<\/footer>/gi, '')
-        .replace(/<aside[^>]*>[\s\S]*?<\/aside>/gi, '')
-        .replace(/<form[^>]*>[\s\S]*?<\/form>/gi, '');
-
-    // Extract paragraph content
-    const paragraphs: string[] = [];
-    const pRegex = /<p[^>]*>([\s\S]*?)<\/p>/gi;
-    let match;
-
-    while ((match = pRegex.exec(cleanHtml)) !== null) {
-        const text = match[1]
-            .replace(/<[^>]+>/g, '')
-            .replace(/&nbsp;/g, ' ')
-            .replace(/&amp;/g, '&')
-            .replace(/&lt;/g, '<')
-            .replace(/&gt;/g, '>')
-            .replace(/&quot;/g, '"')
-            .replace(/&#39;/g, "'")
-            .replace(/\s+/g, ' ')
-            .trim();
-
-        if (text.length > 30) {
-            paragraphs.push(text);
-        }
-    }
-
-    // Find where the main content starts
-    const mainContentStart = findMainContentStart(paragraphs);
-    console.log(`📍 Main content starts at paragraph ${mainContentStart}`);
+    const blocks = extractArticleBlocks(html);
+    console.log(`📍 Found ${blocks.length} content blocks`);
 
-    // Get only the main content paragraphs
-    const mainParagraphs = paragraphs.slice(mainContentStart, mainContentStart + 50);
+    const details = {
+        author,
+        authors,
+        authorBio,
+        canonicalUrl: metadata.canonicalUrl,
+        publishedAt: metadata.publishedAt,
+        siteName: metadata.siteName,
+        language: metadata.language,
+        imageUrl: metadata.imageUrl,
+    };
 
     // Generate intro
-    const intro = generateIntro(title, author, authorBio);
+    const intro = generateIntro(title, details);
 
     // Combine intro and content
-    const content = intro + mainParagraphs.join('\n\n');
+    const content = intro + blocksToText(blocks);
 
-    if (!content || content.length < 100) {
-        // Fallback: just strip all HTML tags
-        const plainText = cleanHtml
-            .replace(/<[^>]+>/g, ' ')
+    if (!blocks.length) {
+        // Fallback: all of the page's text
+        const $ = cheerio.load(html);
+        $('script, style, noscript').remove();
+        const plainText = $('body').text()
             .replace(/\s+/g, ' ')
             .trim()
             .slice(0, 5000);
 
-        return { title, content: plainText, author, source: 'web' };
+        return { title, content: plainText, ...details, source };
     }
 
     console.log(`📝 Extracted: ${title} (${content.length} chars, author: ${author || 'unknown'})`);
 
-    return { title, content, author, authorBio, source: 'web' };
+    return { title, content, ...details, source, blocks };
 }
 
 /**
@@ -270,17 +491,22 @@ export function extractFromText(text: string): ExtractedContent {
 }
 
 /**
- * Extract content from URL or text
+ * Extract content from an uploaded document, URL or text
  */
 export async function extractContent(
     url?: string,
-    text?: string
+    text?: string,
+    document?: SourceDocument,
+    options: ExtractOptions = {}
 ): Promise<ExtractedContent> {
+    if (document) {
+        return extractFromDocument(document, options);
+    }
     if (url) {
-        return extractFromUrl(url);
+        return extractFromUrl(url, options);
     }
     if (text) {
         return extractFromText(text);
     }
-    throw new Error('Either url or text must be provided');
+    throw new Error('Either a document, url or text must be provided');
 }
@@ -0,0 +1,117 @@
+/**
+ * Podcast RSS Feed
+ * Builds a private RSS 2.0 feed of a user's completed podcasts, with iTunes and
+ * Podcasting 2.0 tags, so episodes can be followed in any podcast app.
+ * Feeds are addressed by a secret, revocable per-user token (see /api/feeds).
+ * - PUBLIC_BASE_URL: origin used for links in the feed (default: the request's origin)
+ */
+
+import { NextRequest } from 'next/server';
+import { Podcast } from './db';
+import { PRODUCT_NAME } from './product';
+
+const AUDIO_TYPES: Record<string, string> = {
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+};
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/**
+ * Origin for absolute links - podcast apps can't resolve relative URLs
+ */
+export function getBaseUrl(request: NextRequest): string {
+    return (process.env.PUBLIC_BASE_URL || request.nextUrl.origin).replace(/\/$/, '');
+}
+
+export function getFeedUrl(baseUrl: string, token: string): string {
+    return `${baseUrl}/api/feeds/${token}/rss.xml`;
+}
+
+function formatDuration(seconds: number): string {
+    const total = Math.round(seconds);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+}
+
+function describeEpisode(podcast: Podcast): string {
+    const excerpt = (podcast.script || '').slice(0, 400).trim();
+    const source = podcast.sourceUrl ? `Narrated from ${podcast.sourceUrl}` : 'Narrated from pasted text';
+    return excerpt ? `${source}\n\n${excerpt}${(podcast.script || '').length > 400 ? '…' : ''}` : source;
+}
+
+/**
+ * Absolute enclosure URL. Private audio is streamed by the app with the feed token,
+ * since podcast apps have no session and signed URLs would expire in their cache.
+ */
+function getEnclosureUrl(podcast: Podcast, baseUrl: string, token: string): string {
+    const audioUrl = podcast.audioUrl || '';
+    if (podcast.isPublic && !audioUrl.startsWith('/')) {
+        return audioUrl;
+    }
+    return `${baseUrl}/api/podcasts/${podcast.id}/audio?feed=${token}`;
+}
+
+function buildItem(podcast: Podcast, baseUrl: string, token: string): string {
+    const type = AUDIO_TYPES[podcast.audioFormat || 'mp3'];
+    const pubDate = new Date(podcast.completedAt || podcast.createdAt).toUTCString();
+    const transcriptUrl = `${baseUrl}/api/feeds/${token}/transcripts/${podcast.id}`;
+
+    return [
+        '    <item>',
+        `      <title>${escapeXml(podcast.title)}</title>`,
+        `      <description>${escapeXml(describeEpisode(podcast))}</description>`,
+        `      <guid isPermaLink="false">${podcast.id}</guid>`,
+        `      <pubDate>${pubDate}</pubDate>`,
+        podcast.canonicalUrl || podcast.sourceUrl ? `      <link>${escapeXml(podcast.canonicalUrl || podcast.sourceUrl!)}</link>` : '',
+        `      <enclosure url="${escapeXml(getEnclosureUrl(podcast, baseUrl, token))}" length="${podcast.audioSizeBytes || 0}" type="${type}"/>`,
+        `      <itunes:duration>${formatDuration(podcast.audioDurationSeconds || 0)}</itunes:duration>`,
+        podcast.author ? `      <itunes:author>${escapeXml(podcast.author)}</itunes:author>` : '',
+        `      <podcast:transcript url="${escapeXml(transcriptUrl)}" type="text/vtt"${podcast.language ? ` language="${escapeXml(podcast.language)}"` : ''}/>`,
+        '    </item>',
+    ].filter(Boolean).join('\n');
+}
+
+/**
+ * Language of the whole feed, when every episode is known to share one
+ */
+function getFeedLanguage(episodes: Podcast[]): string | undefined {
+    const languages = new Set(episodes.map(podcast => podcast.language?.toLowerCase()));
+    const [language] = Array.from(languages);
+    return languages.size === 1 ? language : undefined;
+}
+
+/**
+ * RSS document for a user's podcasts (only completed ones are included)
+ */
+export function buildPodcastFeed(podcasts: Podcast[], baseUrl: string, token: string): string {
+    const episodes = podcasts.filter(p => p.status === 'completed' && p.audioUrl);
+    const language = getFeedLanguage(episodes);
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+        '  <channel>',
+        `    <title>${escapeXml(PRODUCT_NAME)}</title>`,
+        `    <link>${escapeXml(baseUrl)}</link>`,
+        `    <atom:link href="${escapeXml(getFeedUrl(baseUrl, token))}" rel="self" type="application/rss+xml"/>`,
+        `    <description>Your articles, narrated by ${escapeXml(PRODUCT_NAME)}</description>`,
+        ...(language ? [`    <language>${escapeXml(language)}</language>`] : []),
+        `    <itunes:author>${escapeXml(PRODUCT_NAME)}</itunes:author>`,
+        '    <itunes:explicit>false</itunes:explicit>',
+        // Private feed - keep it out of podcast directories
+        '    <itunes:block>Yes</itunes:block>',
+        '    <podcast:locked>yes</podcast:locked>',
+        ...episodes.map(podcast => buildItem(podcast, baseUrl, token)),
+        '  </channel>',
+        '</rss>',
+        '',
+    ].join('\n');
+}
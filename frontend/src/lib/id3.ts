@@ -0,0 +1,114 @@
+/**
+ * ID3v2 Tags
+ * Writes an ID3v2.3 tag (the version podcast apps read most reliably) in front of MP3 audio:
+ * text metadata, the source URL, cover art and CHAP/CTOC chapter markers.
+ */
+
+export interface Id3Chapter {
+    title: string;
+    /** Seconds */
+    startTime: number;
+    endTime: number;
+}
+
+export interface Id3Metadata {
+    title: string;
+    artist?: string;
+    album?: string;
+    url?: string;
+    date?: Date;
+    cover?: { mimeType: string; data: Buffer };
+    chapters?: Id3Chapter[];
+}
+
+function concat(buffers: Buffer[]): Buffer {
+    return Buffer.concat(buffers.map(buf => new Uint8Array(buf)));
+}
+
+function frame(id: string, body: Buffer): Buffer {
+    const header = Buffer.alloc(10);
+    header.write(id, 0, 'ascii');
+    header.writeUInt32BE(body.length, 4);
+    return concat([header, body]);
+}
+
+function latin1(text: string, terminate = false): Buffer {
+    return Buffer.from(terminate ? `${text}\0` : text, 'latin1');
+}
+
+/**
+ * Text frame in UTF-16 with a BOM, so titles in any script survive
+ */
+function textFrame(id: string, text: string): Buffer {
+    return frame(id, concat([Buffer.from([0x01, 0xff, 0xfe]), Buffer.from(text, 'utf16le')]));
+}
+
+function pictureFrame(cover: { mimeType: string; data: Buffer }): Buffer {
+    return frame('APIC', concat([
+        Buffer.from([0x00]),      // Latin-1 description
+        latin1(cover.mimeType, true),
+        Buffer.from([0x03]),      // Front cover
+        latin1('', true),
+        cover.data,
+    ]));
+}
+
+function chapterFrame(elementId: string, chapter: Id3Chapter): Buffer {
+    const times = Buffer.alloc(16);
+    times.writeUInt32BE(Math.round(chapter.startTime * 1000), 0);
+    times.writeUInt32BE(Math.round(chapter.endTime * 1000), 4);
+    // Byte offsets unused - players seek by time
+    times.writeUInt32BE(0xffffffff, 8);
+    times.writeUInt32BE(0xffffffff, 12);
+
+    return frame('CHAP', concat([latin1(elementId, true), times, textFrame('TIT2', chapter.title)]));
+}
+
+function tableOfContentsFrame(childIds: string[]): Buffer {
+    return frame('CTOC', concat([
+        latin1('toc', true),
+        Buffer.from([0x03, childIds.length]), // Top-level, ordered
+        ...childIds.map(id => latin1(id, true)),
+        textFrame('TIT2', 'Chapters'),
+    ]));
+}
+
+/**
+ * Synchsafe integer: 7 bits per byte
+ */
+function synchsafe(size: number): Buffer {
+    return Buffer.from([(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]);
+}
+
+/**
+ * Prefix MP3 audio with an ID3v2.3 tag
+ */
+export function writeId3Tag(audio: Buffer, metadata: Id3Metadata): Buffer {
+    const frames: Buffer[] = [textFrame('TIT2', metadata.title), textFrame('TCON', 'Podcast')];
+
+    if (metadata.artist) frames.push(textFrame('TPE1', metadata.artist));
+    if (metadata.album) frames.push(textFrame('TALB', metadata.album));
+    if (metadata.url) frames.push(frame('WOAS', latin1(metadata.url)));
+
+    if (metadata.date) {
+        const day = metadata.date.getUTCDate().toString().padStart(2, '0');
+        const month = (metadata.date.getUTCMonth() + 1).toString().padStart(2, '0');
+        frames.push(textFrame('TYER', metadata.date.getUTCFullYear().toString()));
+        frames.push(textFrame('TDAT', `${day}${month}`));
+    }
+
+    if (metadata.cover) frames.push(pictureFrame(metadata.cover));
+
+    // CTOC stores the entry count in one byte
+    const chapters = (metadata.chapters || []).slice(0, 255);
+    if (chapters.length > 0) {
+        const ids = chapters.map((_, i) => `chp${i}`);
+        frames.push(tableOfContentsFrame(ids));
+        chapters.forEach((chapter, i) => frames.push(chapterFrame(ids[i], chapter)));
+    }
+
+    const body = concat(frames);
+    const header = concat([Buffer.from('ID3', 'ascii'), Buffer.from([0x03, 0x00, 0x00]), synchsafe(body.length)]);
+
+    return concat([header, body, audio]);
+}
@@ -0,0 +1,187 @@
+/**
+ * Background Job Queue
+ * Podcast generation jobs are persisted in the datastore and run by an in-process worker,
+ * so a restart resumes queued work instead of leaving podcasts stuck mid-pipeline.
+ * Series episodes are queued one at a time, each when the one before it ends (see queueNextEpisode).
+ * - JOB_CONCURRENCY: jobs run at the same time (default 2)
+ * - JOB_MAX_ATTEMPTS: runs allowed before an interrupted job is failed (default 3)
+ * - JOB_POLL_INTERVAL_MS: how often the worker looks for due jobs (default 2000)
+ * - JOB_STALE_AFTER_MS: heartbeat age after which a running job counts as orphaned (default 120000)
+ */
+
+import { Job, Podcast, createJobUnlessActive, claimJobs, cancelJobsForPodcast, finishJob, getJobsByStatus, getPodcast, getSeriesEpisodes, setPodcastStatus, updateJob, updatePodcast } from './db';
+import { processPodcast } from './pipeline';
+
+const CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '2', 10);
+const MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10);
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10);
+const STALE_AFTER_MS = parseInt(process.env.JOB_STALE_AFTER_MS || '120000', 10);
+const HEARTBEAT_INTERVAL_MS = Math.max(1000, Math.floor(STALE_AFTER_MS / 4));
+
+const JOB_HANDLERS: Record<Job['type'], (job: Job, signal: AbortSignal) => Promise<void>> = {
+    process_podcast: (job, signal) => processPodcast(job.podcastId, signal),
+};
+
+interface WorkerState {
+    timer: ReturnType<typeof setInterval> | null;
+    running: Set<string>;
+    // In-flight jobs by podcast ID, so they can be cancelled
+    controllers: Map<string, AbortController>;
+    ticking: boolean;
+}
+
+// Using globalThis to ensure a single worker across hot reloads
+function getWorker(): WorkerState {
+    const globalWorker = globalThis as typeof globalThis & { __job_worker?: WorkerState };
+    if (!globalWorker.__job_worker) {
+        globalWorker.__job_worker = { timer: null, running: new Set(), controllers: new Map(), ticking: false };
+    }
+    return globalWorker.__job_worker;
+}
+
+/**
+ * Requeue or fail running jobs whose worker stopped sending heartbeats
+ * (server restart, crashed process or a frozen serverless instance)
+ */
+export async function recoverStaleJobs(): Promise<void> {
+    const worker = getWorker();
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+
+    const orphaned = (await getJobsByStatus('running')).filter(
+        job => !worker.running.has(job.id) && (!job.heartbeatAt || job.heartbeatAt < staleBefore)
+    );
+
+    for (const job of orphaned) {
+        if (job.attempts < job.maxAttempts) {
+            console.log(`♻️ Resuming interrupted job ${job.id} for podcast ${job.podcastId} (run ${job.attempts}/${job.maxAttempts})`);
+            await updateJob(job.id, { status: 'queued', runAt: new Date().toISOString() });
+            await setPodcastStatus(job.podcastId, 'pending');
+        } else {
+            const message = `Generation was interrupted ${job.attempts} times`;
+            console.error(`❌ Giving up on job ${job.id}: ${message}`);
+            await finishJob(job.id, 'failed', { lastError: message });
+            const failed = await setPodcastStatus(job.podcastId, 'failed', { errorMessage: message, lastError: message });
+            if (failed) {
+                queueNextEpisode(failed).catch(console.error);
+            }
+        }
+    }
+}
+
+async function runJob(job: Job): Promise<void> {
+    const worker = getWorker();
+    const controller = new AbortController();
+    worker.running.add(job.id);
+    worker.controllers.set(job.podcastId, controller);
+
+    const heartbeat = setInterval(() => {
+        updateJob(job.id, { heartbeatAt: new Date().toISOString() }).catch(console.error);
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+        await updatePodcast(job.podcastId, { attempts: job.attempts });
+        await JOB_HANDLERS[job.type](job, controller.signal);
+        await finishJob(job.id, 'completed');
+    } catch (error: any) {
+        const podcast = await getPodcast(job.podcastId);
+
+        if (controller.signal.aborted || !podcast || podcast.status === 'cancelled') {
+            console.log(`🛑 Podcast cancelled: ${job.podcastId}`);
+            await updateJob(job.id, { status: 'cancelled' });
+            return;
+        }
+
+        const message = error.message || 'Unknown error';
+        console.error(`❌ Podcast failed: ${job.podcastId}`, error);
+        await finishJob(job.id, 'failed', { lastError: message });
+        await setPodcastStatus(job.podcastId, 'failed', { errorMessage: message, lastError: message });
+    } finally {
+        clearInterval(heartbeat);
+        worker.running.delete(job.id);
+        worker.controllers.delete(job.podcastId);
+        // Completed, failed or cancelled - the series moves on either way
+        getPodcast(job.podcastId)
+            .then(podcast => podcast && queueNextEpisode(podcast))
+            .catch(console.error);
+        // A slot just opened up
+        tick().catch(console.error);
+    }
+}
+
+/**
+ * Claim as many due jobs as there are free slots and start them
+ */
+async function tick(): Promise<void> {
+    const worker = getWorker();
+    if (worker.ticking) return;
+    worker.ticking = true;
+
+    try {
+        await recoverStaleJobs();
+
+        const free = CONCURRENCY - worker.running.size;
+        if (free <= 0) return;
+
+        const jobs = await claimJobs(free);
+        for (const job of jobs) {
+            runJob(job).catch(console.error);
+        }
+    } finally {
+        worker.ticking = false;
+    }
+}
+
+/**
+ * Start the worker loop (safe to call more than once)
+ */
+export function startJobWorker(): void {
+    const worker = getWorker();
+    if (worker.timer) return;
+
+    console.log(`👷 Job worker started (concurrency ${CONCURRENCY})`);
+    worker.timer = setInterval(() => {
+        tick().catch(console.error);
+    }, POLL_INTERVAL_MS);
+
+    tick().catch(console.error);
+}
+
+/**
+ * Queue a podcast for generation
+ * Returns null if the podcast already has a job waiting or running.
+ */
+export async function enqueuePodcastJob(podcastId: string): Promise<Job | null> {
+    const job = await createJobUnlessActive({ type: 'process_podcast', podcastId, maxAttempts: MAX_ATTEMPTS });
+    if (!job) return null;
+
+    startJobWorker();
+    tick().catch(console.error);
+
+    return job;
+}
+
+/**
+ * Queue the next episode of a series once an episode has ended: completed, failed,
+ * cancelled or deleted. Later episodes that already ended are skipped, so one failure
+ * doesn't leave the rest of the series waiting. Nothing is queued while a later
+ * episode is still being generated.
+ */
+export async function queueNextEpisode(episode: Pick<Podcast, 'seriesId' | 'episodeNumber'>): Promise<void> {
+    if (!episode.seriesId) return;
+
+    const ended: Podcast['status'][] = ['completed', 'failed', 'cancelled'];
+    const episodes = await getSeriesEpisodes(episode.seriesId);
+    const next = episodes.find(e => (e.episodeNumber || 0) > (episode.episodeNumber || 0) && !ended.includes(e.status));
+
+    if (next && next.status === 'pending' && await enqueuePodcastJob(next.id)) {
+        console.log(`⏭️ Queued episode ${next.episodeNumber}/${episodes.length} of series ${episode.seriesId}`);
+    }
+}
+
+/**
+ * Cancel a podcast's generation: drop queued jobs and abort a running one
+ */
+export async function cancelPodcastJobs(podcastId: string): Promise<void> {
+    getWorker().controllers.get(podcastId)?.abort();
+    await cancelJobsForPodcast(podcastId);
+}
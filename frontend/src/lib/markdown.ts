@@ -0,0 +1,198 @@
+/**
+ * Markdown Extraction
+ * Reads a Markdown document as blocks: ATX and setext headings, lists, block quotes,
+ * fenced and indented code, and paragraphs. Inline markup (links, images, emphasis,
+ * code spans, HTML tags) is reduced to its text. YAML front matter gives the title and authors.
+ */
+
+import type { ContentBlock } from './readability';
+
+export interface MarkdownContent {
+    title?: string;
+    authors: string[];
+    blocks: ContentBlock[];
+}
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n(---|\.\.\.)\r?\n/;
+const ATX_HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const SETEXT_UNDERLINE = /^(=+|-+)\s*$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const FENCE = /^\s*(```|~~~)/;
+const THEMATIC_BREAK = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LINK_DEFINITION = /^\s*\[[^\]]+\]:\s*\S+/;
+
+/**
+ * Plain text of inline Markdown
+ */
+function stripInline(text: string): string {
+    return text
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+        .replace(/<[^>]+>/g, '')
+        .replace(/`([^`]*)`/g, '$1')
+        .replace(/(\*\*|__)(.+?)\1/g, '$2')
+        .replace(/\*(.+?)\*/g, '$1')
+        // Underscores inside words (snake_case) aren't emphasis
+        .replace(/(^|\W)_(.+?)_(?=\W|$)/g, '$1$2')
+        .replace(/~~(.+?)~~/g, '$1')
+        .replace(/\\([\\`*_{}[\]()#+\-.!>])/g, '$1')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * The few front matter keys we use (title, author, authors) - not a YAML parser
+ */
+function readFrontMatter(yaml: string): { title?: string; authors: string[] } {
+    const unquote = (value: string) => value.trim().replace(/^["']|["']$/g, '');
+    let title: string | undefined;
+    const authors: string[] = [];
+    let inAuthorList = false;
+
+    for (const line of yaml.split(/\r?\n/)) {
+        const item = line.match(/^\s+-\s+(.+)$/);
+        if (inAuthorList && item) {
+            authors.push(unquote(item[1]));
+            continue;
+        }
+        inAuthorList = false;
+
+        const entry = line.match(/^(\w+):\s*(.*)$/);
+        if (!entry) continue;
+        const [, key, value] = entry;
+
+        if (key === 'title' && value) {
+            title = unquote(value);
+        } else if (key === 'author' || key === 'authors') {
+            if (value.startsWith('[')) {
+                authors.push(...value.replace(/^\[|\]$/g, '').split(',').map(unquote));
+            } else if (value) {
+                authors.push(unquote(value));
+            } else {
+                inAuthorList = true;
+            }
+        }
+    }
+
+    return { title, authors: authors.filter(Boolean) };
+}
+
+/**
+ * Read a Markdown document
+ */
+export function extractMarkdown(markdown: string): MarkdownContent {
+    let source = markdown.replace(/^\uFEFF/, '');
+    let frontMatter: { title?: string; authors: string[] } = { authors: [] };
+
+    const match = source.match(FRONT_MATTER);
+    if (match) {
+        frontMatter = readFrontMatter(match[1]);
+        source = source.slice(match[0].length);
+    }
+
+    const lines = source.split(/\r?\n/);
+    const blocks: ContentBlock[] = [];
+    let paragraph: string[] = [];
+    let quote: string[] = [];
+
+    const flushParagraph = () => {
+        const text = stripInline(paragraph.join(' '));
+        if (text) blocks.push({ type: 'paragraph', text });
+        paragraph = [];
+    };
+    const flushQuote = () => {
+        const text = stripInline(quote.join(' '));
+        if (text) blocks.push({ type: 'quote', text });
+        quote = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        const quoted = line.match(QUOTE);
+        if (quoted) {
+            flushParagraph();
+            quote.push(quoted[1]);
+            continue;
+        }
+        flushQuote();
+
+        if (FENCE.test(line)) {
+            flushParagraph();
+            const fence = line.trim().slice(0, 3);
+            const code: string[] = [];
+            while (++i < lines.length && !lines[i].trim().startsWith(fence)) {
+                code.push(lines[i]);
+            }
+            if (code.join('').trim()) blocks.push({ type: 'preformatted', text: code.join('\n').trim() });
+            continue;
+        }
+
+        if (!line.trim()) {
+            flushParagraph();
+            continue;
+        }
+
+        // Indented code, only where a paragraph or list can't continue
+        if (/^( {4}|\t)/.test(line) && !paragraph.length && blocks[blocks.length - 1]?.type !== 'list-item') {
+            const code: string[] = [];
+            while (i < lines.length && (/^( {4}|\t)/.test(lines[i]) || !lines[i].trim())) {
+                code.push(lines[i].replace(/^( {4}|\t)/, ''));
+                i++;
+            }
+            i--;
+            if (code.join('').trim()) blocks.push({ type: 'preformatted', text: code.join('\n').trim() });
+            continue;
+        }
+
+        const heading = line.match(ATX_HEADING);
+        if (heading) {
+            flushParagraph();
+            const text = stripInline(heading[2]);
+            if (text) blocks.push({ type: 'heading', text, level: heading[1].length });
+            continue;
+        }
+
+        // "Title" over "=====" or "-----"
+        if (paragraph.length && SETEXT_UNDERLINE.test(line)) {
+            const text = stripInline(paragraph.join(' '));
+            paragraph = [];
+            if (text) blocks.push({ type: 'heading', text, level: line.trim()[0] === '=' ? 1 : 2 });
+            continue;
+        }
+
+        if (THEMATIC_BREAK.test(line) || LINK_DEFINITION.test(line)) {
+            flushParagraph();
+            continue;
+        }
+
+        const item = line.match(LIST_ITEM);
+        if (item) {
+            flushParagraph();
+            const text = stripInline(item[2]);
+            if (text) blocks.push({ type: 'list-item', text });
+            continue;
+        }
+
+        // Continuation lines of a list item
+        const previous = blocks[blocks.length - 1];
+        if (!paragraph.length && previous?.type === 'list-item' && /^\s+/.test(line) && i > 0 && lines[i - 1].trim()) {
+            previous.text = `${previous.text} ${stripInline(line)}`;
+            continue;
+        }
+
+        paragraph.push(line.trim());
+    }
+    flushParagraph();
+    flushQuote();
+
+    const firstHeading = blocks.find(block => block.type === 'heading' && block.level === 1);
+
+    return {
+        title: frontMatter.title || firstHeading?.text,
+        authors: frontMatter.authors,
+        blocks,
+    };
+}
@@ -0,0 +1,252 @@
+/**
+ * Page Metadata
+ * Reads article metadata from the structured sources publishers provide, in order of trust:
+ * 1. JSON-LD (schema.org Article and its subtypes)
+ * 2. Highwire Press citation_* tags (academic papers)
+ * 3. Open Graph og:* / article:* tags
+ * 4. Dublin Core DC.* / dcterms.* tags
+ * 5. Plain HTML: <title>, <meta name="author">, <html lang>, <link rel="canonical">
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+
+export interface PageMetadata {
+    title?: string;
+    authors: string[];
+    canonicalUrl?: string;
+    /** ISO 8601 */
+    publishedAt?: string;
+    siteName?: string;
+    /** BCP 47 tag, e.g. "en-US" */
+    language?: string;
+    imageUrl?: string;
+}
+
+const ARTICLE_TYPES = /^(Article|NewsArticle|BlogPosting|Blog|ScholarlyArticle|TechArticle|Report|AnalysisNewsArticle|OpinionNewsArticle|ReportageNewsArticle|ReviewNewsArticle|SocialMediaPosting|LiveBlogPosting)$/;
+
+// Separators between a page title and the site name - dashes need spaces, so "well-known" survives
+const TITLE_SEPARATOR = /\s+[|\-–—:·•]\s+|\s*\|\s*/;
+
+function clean(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const text = cheerio.load(`<p>${value}</p>`)('p').text().replace(/\s+/g, ' ').trim();
+    return text || undefined;
+}
+
+function first<T>(...values: (T | undefined)[]): T | undefined {
+    return values.find(value => value !== undefined);
+}
+
+function metaContent($: CheerioAPI, ...names: string[]): string[] {
+    const values: string[] = [];
+    for (const name of names) {
+        $(`meta[name="${name}" i], meta[property="${name}" i]`).each((_, el) => {
+            const value = clean(el.attribs.content);
+            if (value) values.push(value);
+        });
+    }
+    return values;
+}
+
+function resolveUrl(value: string | undefined, baseUrl: string): string | undefined {
+    if (!value) return undefined;
+    try {
+        const url = new URL(value, baseUrl);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function isUrl(value: string): boolean {
+    return /^https?:\/\//i.test(value);
+}
+
+/**
+ * "Smith, Jane" (citation_author style) → "Jane Smith"
+ */
+function toDisplayName(name: string): string {
+    const match = name.match(/^([^,]+),\s*([^,]+)$/);
+    return match ? `${match[2]} ${match[1]}` : name;
+}
+
+function uniqueNames(names: string[]): string[] {
+    const seen = new Set<string>();
+    return names
+        .filter(name => !isUrl(name))
+        .map(toDisplayName)
+        .filter(name => {
+            const key = name.toLowerCase();
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .slice(0, 10);
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+function isJsonLdNode(value: unknown): value is JsonLdNode {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Every JSON-LD node on the page, with @graph containers and arrays flattened
+ */
+function readJsonLd($: CheerioAPI): JsonLdNode[] {
+    const nodes: JsonLdNode[] = [];
+    const visit = (value: unknown) => {
+        if (Array.isArray(value)) {
+            value.forEach(visit);
+        } else if (isJsonLdNode(value)) {
+            nodes.push(value);
+            if (value['@graph']) visit(value['@graph']);
+        }
+    };
+
+    $('script[type="application/ld+json"]').each((_, el) => {
+        try {
+            visit(JSON.parse($(el).text()));
+        } catch {
+            // Malformed JSON-LD is common - ignore it and use the other sources
+        }
+    });
+
+    return nodes;
+}
+
+function hasType(node: JsonLdNode, pattern: RegExp): boolean {
+    const types: unknown[] = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+    return types.some(type => typeof type === 'string' && pattern.test(type));
+}
+
+/**
+ * Text of a value that is either a string or a schema.org Thing with a name
+ */
+function jsonLdText(value: unknown): string | undefined {
+    return clean(isJsonLdNode(value) ? value.name : value);
+}
+
+/**
+ * Names from schema.org Person/Organization values (string, object or array)
+ */
+function jsonLdNames(value: unknown): string[] {
+    if (Array.isArray(value)) return value.flatMap(jsonLdNames);
+    const name = jsonLdText(value);
+    return name ? [name] : [];
+}
+
+function jsonLdUrl(value: unknown): string | undefined {
+    if (Array.isArray(value)) return jsonLdUrl(value[0]);
+    if (typeof value === 'string') return value;
+    if (!isJsonLdNode(value)) return undefined;
+    return first(jsonLdUrl(value.url), jsonLdUrl(value.contentUrl), jsonLdUrl(value['@id']));
+}
+
+/**
+ * Strip the site name from a title ("Article | Site", "Site - Article")
+ * With `guess`, an unknown site name is dropped by keeping the longest part
+ */
+function cleanTitle(title: string, siteName?: string, guess = false): string {
+    const parts = title.split(TITLE_SEPARATOR).map(part => part.trim()).filter(Boolean);
+    if (parts.length < 2) return title;
+
+    if (siteName) {
+        // Parts at even indexes, each separator between them at the odd index in between
+        const pieces = title.split(new RegExp(`(${TITLE_SEPARATOR.source})`));
+        const isSite = (piece: string) => piece.trim().toLowerCase() === siteName.toLowerCase();
+        const before = pieces.length;
+
+        // Site names go at either end; only they and their separator are removed
+        while (pieces.length >= 3 && isSite(pieces[pieces.length - 1])) pieces.splice(-2);
+        while (pieces.length >= 3 && isSite(pieces[0])) pieces.splice(0, 2);
+
+        if (pieces.length !== before) return pieces.join('').trim();
+    }
+    if (!guess) return title;
+
+    // The longest part is usually the headline
+    return parts.reduce((longest, part) => part.length > longest.length ? part : longest);
+}
+
+/**
+ * Read article metadata from an HTML page
+ */
+export function extractPageMetadata(html: string, pageUrl: string): PageMetadata {
+    const $ = cheerio.load(html);
+    const article: JsonLdNode = readJsonLd($).find(node => hasType(node, ARTICLE_TYPES)) || {};
+    const meta = (...names: string[]) => metaContent($, ...names)[0];
+
+    const siteName = first(
+        meta('og:site_name'),
+        jsonLdNames(article.publisher)[0],
+        meta('citation_journal_title'),
+        meta('DC.publisher', 'dcterms.publisher'),
+        meta('application-name'),
+    );
+
+    const metaTitle = first(
+        clean(article.headline),
+        clean(article.name),
+        meta('citation_title'),
+        meta('og:title'),
+        meta('DC.title', 'dcterms.title'),
+        meta('twitter:title'),
+    );
+    const documentTitle = clean($('title').first().text());
+    const title = metaTitle
+        ? cleanTitle(metaTitle, siteName)
+        : documentTitle && cleanTitle(documentTitle, siteName, true);
+
+    // Each source lists every author, so take the first that has any
+    const authorSources = [
+        jsonLdNames(article.author),
+        metaContent($, 'citation_author'),
+        metaContent($, 'article:author'),
+        metaContent($, 'author'),
+        metaContent($, 'DC.creator', 'dcterms.creator'),
+    ];
+    const authors = uniqueNames(authorSources.find(names => uniqueNames(names).length) || []);
+
+    const publishedAt = toIsoDate(first(
+        clean(article.datePublished),
+        meta('citation_publication_date'),
+        meta('citation_date'),
+        meta('article:published_time'),
+        meta('DC.date', 'dcterms.date', 'dcterms.created'),
+        $('time[datetime]').first().attr('datetime'),
+    ));
+
+    const language = first(
+        jsonLdText(article.inLanguage),
+        clean($('html').attr('lang')),
+        meta('citation_language'),
+        meta('DC.language', 'dcterms.language'),
+        meta('og:locale')?.replace('_', '-'),
+    );
+
+    return {
+        title,
+        authors,
+        canonicalUrl: first(
+            resolveUrl($('link[rel="canonical"]').attr('href'), pageUrl),
+            resolveUrl(meta('og:url'), pageUrl),
+            resolveUrl(jsonLdUrl(article.mainEntityOfPage) || jsonLdUrl(article.url), pageUrl),
+        ),
+        publishedAt,
+        siteName,
+        language,
+        imageUrl: first(
+            resolveUrl(jsonLdUrl(article.image), pageUrl),
+            resolveUrl(meta('og:image', 'og:image:url', 'og:image:secure_url'), pageUrl),
+            resolveUrl(meta('twitter:image', 'twitter:image:src'), pageUrl),
+        ),
+    };
+}
@@ -0,0 +1,299 @@
+/**
+ * MP3 Helpers
+ * Walks MPEG audio frames to get exact durations from the encoded audio,
+ * rather than guessing from the word count and speaking rate, and joins
+ * synthesized chunks into one clean stream.
+ */
+
+interface FrameHeader {
+    /** Frame length in bytes, including the header */
+    length: number;
+    samples: number;
+    sampleRate: number;
+    /** Where a Xing/Info tag would sit - right after the layer III side info */
+    infoTagOffset: number;
+}
+
+// Bitrates in kbps by [MPEG-1 | MPEG-2/2.5][layer I, II, III][bitrate index]
+const BITRATES: Record<'v1' | 'v2', number[][]> = {
+    v1: [
+        [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+        [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+        [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    ],
+    v2: [
+        [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+        [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+        [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    ],
+};
+
+// Sample rates by version bits (MPEG-2.5, reserved, MPEG-2, MPEG-1)
+const SAMPLE_RATES: (number[] | null)[] = [
+    [11025, 12000, 8000],
+    null,
+    [22050, 24000, 16000],
+    [44100, 48000, 32000],
+];
+
+/**
+ * Decode the 4-byte frame header at `offset`, or null if there isn't a valid one
+ */
+function readFrameHeader(buffer: Buffer, offset: number): FrameHeader | null {
+    if (offset + 4 > buffer.length) return null;
+    if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) return null;
+
+    const versionBits = (buffer[offset + 1] >> 3) & 0x03;
+    const layerBits = (buffer[offset + 1] >> 1) & 0x03;
+    const bitrateIndex = (buffer[offset + 2] >> 4) & 0x0f;
+    const sampleRateIndex = (buffer[offset + 2] >> 2) & 0x03;
+    const padding = (buffer[offset + 2] >> 1) & 0x01;
+    const mono = ((buffer[offset + 3] >> 6) & 0x03) === 3;
+
+    const sampleRates = SAMPLE_RATES[versionBits];
+    // Reserved values, and "free format" bitrate which we can't size
+    if (!sampleRates || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+        return null;
+    }
+
+    const isV1 = versionBits === 3;
+    const layer = 4 - layerBits; // 1, 2 or 3
+    const bitrate = BITRATES[isV1 ? 'v1' : 'v2'][layer - 1][bitrateIndex] * 1000;
+    const sampleRate = sampleRates[sampleRateIndex];
+
+    if (layer === 1) {
+        return { length: (Math.floor((12 * bitrate) / sampleRate) + padding) * 4, samples: 384, sampleRate, infoTagOffset: 0 };
+    }
+
+    const samples = layer === 3 && !isV1 ? 576 : 1152;
+    const sideInfo = isV1 ? (mono ? 17 : 32) : (mono ? 9 : 17);
+
+    return {
+        length: Math.floor((samples / 8) * bitrate / sampleRate) + padding,
+        samples,
+        sampleRate,
+        infoTagOffset: layer === 3 ? 4 + sideInfo : 0,
+    };
+}
+
+/**
+ * Size of an ID3v2 tag starting at `offset` (0 if there is none)
+ */
+function getId3v2Size(buffer: Buffer, offset: number): number {
+    if (offset + 10 > buffer.length || buffer.toString('ascii', offset, offset + 3) !== 'ID3') return 0;
+
+    // Synchsafe integer: 7 bits per byte
+    const size = ((buffer[offset + 6] & 0x7f) << 21)
+        | ((buffer[offset + 7] & 0x7f) << 14)
+        | ((buffer[offset + 8] & 0x7f) << 7)
+        | (buffer[offset + 9] & 0x7f);
+    const hasFooter = (buffer[offset + 5] & 0x10) !== 0;
+
+    return 10 + size + (hasFooter ? 10 : 0);
+}
+
+/**
+ * Whether a frame, an ID3v2 tag or a trailing ID3v1 tag starts at `offset`
+ */
+function isFrameBoundary(buffer: Buffer, offset: number): boolean {
+    return readFrameHeader(buffer, offset) !== null
+        || getId3v2Size(buffer, offset) > 0
+        || buffer.toString('ascii', offset, offset + 3) === 'TAG';
+}
+
+/**
+ * Xing/Info/VBRI frames carry encoder metadata, not audio - players skip them
+ */
+function isInfoFrame(buffer: Buffer, offset: number, header: FrameHeader): boolean {
+    if (!header.infoTagOffset) return false;
+
+    const tagAt = (position: number) => buffer.toString('ascii', offset + position, offset + position + 4);
+    const tag = tagAt(header.infoTagOffset);
+
+    return tag === 'Xing' || tag === 'Info' || tagAt(36) === 'VBRI';
+}
+
+interface Mp3Frame {
+    /** The whole frame, header included */
+    data: Buffer;
+    header: FrameHeader;
+    /** Xing/Info/VBRI metadata frame rather than audio */
+    isInfo: boolean;
+}
+
+/**
+ * Find every MPEG frame in a buffer, skipping ID3 tags and any unsynced bytes
+ */
+function scanFrames(buffer: Buffer): Mp3Frame[] {
+    const frames: Mp3Frame[] = [];
+    let offset = 0;
+
+    while (offset + 4 <= buffer.length) {
+        const tagSize = getId3v2Size(buffer, offset);
+        if (tagSize > 0) {
+            offset += tagSize;
+            continue;
+        }
+
+        const header = readFrameHeader(buffer, offset);
+
+        // Only trust a header when the next frame (or the end of the data) lines up,
+        // otherwise it's a sync word inside audio data - move on a byte and resync
+        const next = header ? offset + header.length : 0;
+        if (!header || (next < buffer.length && !isFrameBoundary(buffer, next))) {
+            // ID3v1 tags are a fixed 128 bytes
+            offset += buffer.toString('ascii', offset, offset + 3) === 'TAG' ? 128 : 1;
+            continue;
+        }
+
+        frames.push({
+            data: buffer.subarray(offset, next),
+            header,
+            isInfo: isInfoFrame(buffer, offset, header),
+        });
+        offset = next;
+    }
+
+    return frames;
+}
+
+function frameDuration(header: FrameHeader): number {
+    return header.samples / header.sampleRate;
+}
+
+/**
+ * Copy a frame header without CRC protection or a padding byte,
+ * optionally at another bitrate
+ */
+function cloneHeader(template: Buffer, bitrateIndex?: number): Buffer {
+    const header = Buffer.from(template.subarray(0, 4));
+    header[1] |= 0x01;
+    header[2] &= ~0x02;
+    if (bitrateIndex !== undefined) {
+        header[2] = (header[2] & 0x0f) | (bitrateIndex << 4);
+    }
+    return header;
+}
+
+/**
+ * A frame with empty side info and no main data, which decodes to silence
+ */
+function createSilentFrame(template: Buffer): Buffer {
+    const header = cloneHeader(template);
+    const frame = Buffer.alloc((readFrameHeader(header, 0) as FrameHeader).length);
+    header.copy(frame);
+    return frame;
+}
+
+// "Xing"/"Info" + flags + frame count + byte count + 100-entry seek table
+const XING_TAG_SIZE = 4 + 4 + 4 + 4 + 100;
+
+/**
+ * Build the single Xing (VBR) or Info (CBR) frame that opens the file,
+ * so players get the exact length and can seek without scanning
+ * Returns null for streams that can't carry one (not layer III)
+ */
+function createInfoFrame(template: Buffer, frames: Mp3Frame[]): Buffer | null {
+    // The tag frame needs a bitrate high enough for the tag to fit
+    let header: Buffer | null = null;
+    let parsed: FrameHeader | null = null;
+    for (let bitrateIndex = 1; bitrateIndex < 15; bitrateIndex++) {
+        header = cloneHeader(template, bitrateIndex);
+        parsed = readFrameHeader(header, 0);
+        if (parsed && parsed.infoTagOffset && parsed.length >= parsed.infoTagOffset + XING_TAG_SIZE) break;
+        parsed = null;
+    }
+    if (!header || !parsed) return null;
+
+    const frame = Buffer.alloc(parsed.length);
+    header.copy(frame);
+
+    const audioBytes = frames.reduce((sum, f) => sum + f.data.length, 0);
+    const totalBytes = frame.length + audioBytes;
+    const totalDuration = frames.reduce((sum, f) => sum + frameDuration(f.header), 0);
+    const bitrates = new Set(frames.map(f => f.data[2] >> 4));
+
+    let position = parsed.infoTagOffset;
+    frame.write(bitrates.size === 1 ? 'Info' : 'Xing', position, 'ascii');
+    frame.writeUInt32BE(0x07, position + 4); // frames, bytes and TOC present
+    frame.writeUInt32BE(frames.length, position + 8);
+    frame.writeUInt32BE(totalBytes, position + 12);
+    position += 16;
+
+    // Seek table: file position (in 1/256ths) at each percent of the duration
+    let elapsed = 0;
+    let bytes = frame.length;
+    let index = 0;
+    for (let percent = 0; percent < 100; percent++) {
+        const target = (totalDuration * percent) / 100;
+        while (index < frames.length && elapsed + frameDuration(frames[index].header) <= target) {
+            elapsed += frameDuration(frames[index].header);
+            bytes += frames[index].data.length;
+            index++;
+        }
+        frame[position + percent] = Math.min(255, Math.floor((256 * bytes) / totalBytes));
+    }
+
+    return frame;
+}
+
+/**
+ * Exact duration of MP3 audio in seconds
+ * Works on single files and on plain concatenations (ID3 tags between chunks are skipped)
+ */
+export function getMp3Duration(buffer: Buffer): number {
+    const frames = scanFrames(buffer);
+
+    if (frames.length === 0) {
+        throw new Error('No MP3 audio frames found');
+    }
+
+    // Each synthesized chunk may start with its own info frame
+    return frames
+        .filter(frame => !frame.isInfo)
+        .reduce((sum, frame) => sum + frameDuration(frame.header), 0);
+}
+
+/**
+ * Join MP3 files into one stream with a single Xing/Info header
+ * Per-file ID3 tags and info frames are dropped and `gapSeconds` of silence
+ * separates the files. Returns where each file starts in the joined audio.
+ */
+export function concatMp3(buffers: Buffer[], gapSeconds = 0): { audio: Buffer; duration: number; offsets: number[] } {
+    const parts = buffers.map(buffer => scanFrames(buffer).filter(frame => !frame.isInfo));
+    const template = parts.find(frames => frames.length > 0)?.[0];
+
+    if (!template) {
+        throw new Error('No MP3 audio frames found');
+    }
+
+    const silence = createSilentFrame(template.data);
+    const silenceHeader = readFrameHeader(silence, 0) as FrameHeader;
+    const gapFrames = Math.round(gapSeconds / frameDuration(silenceHeader));
+
+    const frames: Mp3Frame[] = [];
+    const offsets: number[] = [];
+    let elapsed = 0;
+
+    parts.forEach((partFrames, i) => {
+        if (i > 0) {
+            for (let n = 0; n < gapFrames; n++) {
+                frames.push({ data: silence, header: silenceHeader, isInfo: false });
+                elapsed += frameDuration(silenceHeader);
+            }
+        }
+
+        offsets.push(elapsed);
+        for (const frame of partFrames) {
+            frames.push(frame);
+            elapsed += frameDuration(frame.header);
+        }
+    });
+
+    const infoFrame = createInfoFrame(template.data, frames);
+    const audio = Buffer.concat(
+        [...(infoFrame ? [infoFrame] : []), ...frames.map(frame => frame.data)].map(buf => new Uint8Array(buf))
+    );
+
+    return { audio, duration: elapsed, offsets };
+}
@@ -16,6 +16,7 @@ interface SummarizeOptions {
     title: string;
     durationType: string;
     author?: string;
+    signal?: AbortSignal;
 }
 
 interface SummarizeResult {
@@ -31,6 +32,7 @@ export async function summarizeForDuration({
     title,
     durationType,
     author,
+    signal,
 }: SummarizeOptions): Promise<SummarizeResult> {
     const apiKey = process.env.OPENAI_API_KEY;
 
@@ -83,6 +85,7 @@ Write directly as if reading to a listener.`;
                 temperature: 0.7,
                 max_tokens: Math.ceil(targetWords * 1.3),
             }),
+            signal,
         });
 
         if (!response.ok) {
@@ -102,6 +105,9 @@ Write directly as if reading to a listener.`;
         return { summary, wordCount: summaryWordCount };
 
     } catch (error: any) {
+        // Cancelled - don't fall back to truncation
+        if (signal?.aborted) throw error;
+
         console.error('❌ Summarization failed:', error.message);
         const truncated = truncateToWordCount(content, targetWords);
         return { summary: truncated, wordCount: truncated.split(/\s+/).length };
@@ -0,0 +1,329 @@
+/**
+ * PDF Extraction
+ * Turns a PDF (papers, reports) into readable blocks with pdf.js text positions:
+ * - reading order is rebuilt line by line, with two-column pages read column by column
+ * - running headers/footers and page numbers are dropped
+ * - words hyphenated across line breaks are rejoined
+ * - the references section (and anything after it) can be skipped
+ */
+
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { ContentBlock } from './readability';
+
+export interface PdfContent {
+    title?: string;
+    authors: string[];
+    blocks: ContentBlock[];
+    pageCount: number;
+}
+
+export interface PdfOptions {
+    skipReferences?: boolean;
+}
+
+interface PdfLine {
+    text: string;
+    x: number;
+    /** Baseline, from the bottom of the page */
+    y: number;
+    right: number;
+    fontSize: number;
+    page: number;
+}
+
+// Share of the page height at the top and bottom where running headers/footers live
+const MARGIN_ZONE = 0.1;
+
+// Roman page numbers up to 399 (front matter), all lowercase or all uppercase, so words
+// like "did" or "mix" in a running header aren't taken for one
+const ROMAN_NUMERAL = 'c{0,3}(xc|xl|l?x{0,3})(ix|iv|v?i{0,3})';
+const PAGE_NUMBER = new RegExp(
+    `^((page|Page|PAGE)\\s+)?(\\d+|(?=[ivxlc])${ROMAN_NUMERAL}|(?=[IVXLC])${ROMAN_NUMERAL.toUpperCase()})(\\s*(of|OF|\\/)\\s*\\d+)?$`
+);
+const REFERENCES_HEADING = /^((\d+|[IVX]+)\.?\s*)?(references|bibliography|works cited|literature cited|reference list|citations)$/i;
+const JUNK_TITLE = /^(untitled|microsoft (word|powerpoint)|document\d*$)|\.(docx?|pdf|tex|dvi|indd)$/i;
+
+function median(values: number[]): number {
+    if (!values.length) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+function isTextItem(item: object): item is TextItem {
+    return 'str' in item;
+}
+
+/**
+ * x position of the gap between two columns, or null for single-column pages
+ * Picks the point near the middle that the fewest text items cross
+ */
+function findGutter(items: TextItem[], pageWidth: number): number | null {
+    const textItems = items.filter(item => item.str.trim().length > 1);
+    if (textItems.length < 20) return null;
+
+    let best: { x: number; crossings: number } | null = null;
+    for (let x = pageWidth * 0.35; x <= pageWidth * 0.65; x += pageWidth / 100) {
+        const crossings = textItems.filter(item => item.transform[4] < x && item.transform[4] + item.width > x).length;
+        if (!best || crossings < best.crossings) best = { x, crossings };
+    }
+    if (!best || best.crossings > textItems.length * 0.05) return null;
+
+    // Both sides need a real share of the text to be columns
+    const left = textItems.filter(item => item.transform[4] + item.width <= best!.x).length;
+    const right = textItems.filter(item => item.transform[4] >= best!.x).length;
+    return left > textItems.length * 0.2 && right > textItems.length * 0.2 ? best.x : null;
+}
+
+/**
+ * Group items into lines (top to bottom), joining items on the same baseline
+ */
+function buildLines(items: TextItem[], page: number): PdfLine[] {
+    const sorted = [...items].sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]);
+    const lines: { items: TextItem[]; y: number; fontSize: number }[] = [];
+
+    for (const item of sorted) {
+        const fontSize = Math.hypot(item.transform[2], item.transform[3]) || item.height || 10;
+        const line = lines.find(l => Math.abs(l.y - item.transform[5]) < Math.min(l.fontSize, fontSize) * 0.5);
+        if (line) {
+            line.items.push(item);
+            line.fontSize = Math.max(line.fontSize, fontSize);
+        } else {
+            lines.push({ items: [item], y: item.transform[5], fontSize });
+        }
+    }
+
+    return lines
+        .sort((a, b) => b.y - a.y)
+        .map(line => {
+            const lineItems = line.items.sort((a, b) => a.transform[4] - b.transform[4]);
+            let text = '';
+            let right = lineItems[0].transform[4];
+
+            for (const item of lineItems) {
+                const gap = item.transform[4] - right;
+                // Items don't always carry their own spaces - infer them from gaps
+                if (text && gap > line.fontSize * 0.15 && !/\s$/.test(text) && !/^\s/.test(item.str)) {
+                    text += ' ';
+                }
+                text += item.str;
+                right = Math.max(right, item.transform[4] + item.width);
+            }
+
+            return {
+                text: text.replace(/\s+/g, ' ').trim(),
+                x: lineItems[0].transform[4],
+                y: line.y,
+                right,
+                fontSize: line.fontSize,
+                page,
+            };
+        })
+        .filter(line => line.text);
+}
+
+/**
+ * Lines of one page in reading order
+ * On two-column pages: full-width lines above the columns, the left column, the right
+ * column, then full-width lines below (footnotes, figures spanning both columns)
+ */
+function readPage(items: TextItem[], pageWidth: number, page: number): PdfLine[] {
+    const gutter = findGutter(items, pageWidth);
+    if (gutter === null) return buildLines(items, page);
+
+    const left = items.filter(item => item.transform[4] + item.width <= gutter);
+    const right = items.filter(item => item.transform[4] >= gutter);
+    const spanning = items.filter(item => !left.includes(item) && !right.includes(item));
+
+    const columnTop = Math.max(...[...left, ...right].map(item => item.transform[5]));
+    const spanningLines = buildLines(spanning, page);
+
+    return [
+        ...spanningLines.filter(line => line.y > columnTop),
+        ...buildLines(left, page),
+        ...buildLines(right, page),
+        ...spanningLines.filter(line => line.y <= columnTop),
+    ];
+}
+
+function marginKey(text: string): string {
+    return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ');
+}
+
+/**
+ * Drop running headers/footers (the same text in the margin of most pages) and page numbers
+ */
+function removePageFurniture(pages: { lines: PdfLine[]; height: number }[]): PdfLine[] {
+    const inMargin = (line: PdfLine, height: number) =>
+        line.y > height * (1 - MARGIN_ZONE) || line.y < height * MARGIN_ZONE;
+
+    const pageCounts = new Map<string, number>();
+    for (const { lines, height } of pages) {
+        const keys = new Set(lines.filter(line => inMargin(line, height)).map(line => marginKey(line.text)));
+        keys.forEach(key => pageCounts.set(key, (pageCounts.get(key) || 0) + 1));
+    }
+
+    const minRepeats = Math.max(2, Math.ceil(pages.length * 0.5));
+
+    return pages.flatMap(({ lines, height }) => lines.filter(line => {
+        if (!inMargin(line, height)) return true;
+        if (PAGE_NUMBER.test(line.text)) return false;
+        return pages.length < 2 || (pageCounts.get(marginKey(line.text)) || 0) < minRepeats;
+    }));
+}
+
+/**
+ * Most common font size, weighted by text length
+ */
+function getBodyFontSize(lines: PdfLine[]): number {
+    const weights = new Map<number, number>();
+    for (const line of lines) {
+        const size = Math.round(line.fontSize * 2) / 2;
+        weights.set(size, (weights.get(size) || 0) + line.text.length);
+    }
+    let best = 0;
+    let bestWeight = -1;
+    weights.forEach((weight, size) => {
+        if (weight > bestWeight) {
+            best = size;
+            bestWeight = weight;
+        }
+    });
+    return best;
+}
+
+/**
+ * Join a line onto a paragraph, undoing end-of-line hyphenation
+ */
+function joinLine(paragraph: string, line: string): string {
+    if (!paragraph) return line;
+    if (/[A-Za-z]-$/.test(paragraph) && /^[a-z]/.test(line)) {
+        return paragraph.slice(0, -1) + line;
+    }
+    return `${paragraph} ${line}`;
+}
+
+/**
+ * Merge lines into headings and paragraphs
+ */
+function buildBlocks(lines: PdfLine[]): ContentBlock[] {
+    const bodySize = getBodyFontSize(lines);
+    const gaps: number[] = [];
+    for (let i = 1; i < lines.length; i++) {
+        const gap = lines[i - 1].y - lines[i].y;
+        if (lines[i].page === lines[i - 1].page && gap > 0) gaps.push(gap);
+    }
+    const lineSpacing = median(gaps) || bodySize * 1.2;
+    const lineWidth = median(lines.map(line => line.right - line.x));
+
+    const blocks: ContentBlock[] = [];
+    let paragraph = '';
+    let isHeading = false;
+
+    const flush = () => {
+        if (paragraph) {
+            blocks.push(isHeading ? { type: 'heading', text: paragraph, level: 2 } : { type: 'paragraph', text: paragraph });
+        }
+        paragraph = '';
+    };
+
+    lines.forEach((line, i) => {
+        const previous = lines[i - 1];
+        const lineIsHeading = line.fontSize > bodySize * 1.15 && line.text.length < 150;
+
+        const endsSentence = previous && /[.!?:]["”’)]?$/.test(previous.text);
+        const startsNew = !previous
+            || lineIsHeading !== isHeading
+            || Math.abs(line.fontSize - previous.fontSize) > bodySize * 0.2
+            // A larger gap than usual between lines on the same page
+            || (line.page === previous.page && previous.y - line.y > lineSpacing * 1.6)
+            // The previous line ended a sentence well before the margin
+            || (endsSentence && previous.right - previous.x < lineWidth * 0.8)
+            // First-line indent
+            || (endsSentence && line.x > previous.x + bodySize)
+            // A new page or column after a finished sentence
+            || (endsSentence && (line.page !== previous.page || line.y > previous.y));
+
+        if (startsNew) {
+            flush();
+            isHeading = lineIsHeading;
+        }
+        paragraph = joinLine(paragraph, line.text);
+    });
+    flush();
+
+    return blocks;
+}
+
+function getTitle(info: Record<string, any>, lines: PdfLine[]): string | undefined {
+    const infoTitle = typeof info.Title === 'string' ? info.Title.trim() : '';
+    if (infoTitle && !JUNK_TITLE.test(infoTitle)) return infoTitle;
+
+    // Otherwise the largest text on the first page
+    const firstPage = lines.filter(line => line.page === 1);
+    if (!firstPage.length) return undefined;
+
+    const largest = Math.max(...firstPage.map(line => line.fontSize));
+    const title = firstPage
+        .filter(line => line.fontSize >= largest * 0.95)
+        .slice(0, 3)
+        .reduce((text, line) => joinLine(text, line.text), '');
+    return title.slice(0, 200) || undefined;
+}
+
+function getAuthors(info: Record<string, any>): string[] {
+    const author = typeof info.Author === 'string' ? info.Author.trim() : '';
+    return author
+        ? author.split(/\s*(?:;|&|\band\b)\s*/).map(name => name.trim()).filter(Boolean)
+        : [];
+}
+
+/**
+ * Extract readable content from PDF data
+ */
+export async function extractPdf(data: Uint8Array, options: PdfOptions = {}): Promise<PdfContent> {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+    const document = await pdfjs.getDocument({
+        data,
+        isEvalSupported: false,
+        disableFontFace: true,
+        useSystemFonts: false,
+        verbosity: 0,
+    }).promise;
+
+    try {
+        const pages: { lines: PdfLine[]; height: number }[] = [];
+
+        for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+            const page = await document.getPage(pageNumber);
+            const viewport = page.getViewport({ scale: 1 });
+            const content = await page.getTextContent();
+            const items = content.items.filter(isTextItem).filter(item => item.str.trim() && item.dir !== 'ttb');
+
+            pages.push({ lines: readPage(items, viewport.width, pageNumber), height: viewport.height });
+            page.cleanup();
+        }
+
+        let lines = removePageFurniture(pages);
+
+        if (options.skipReferences) {
+            // Only a heading after the first 30% of the document - tables of contents mention it too
+            const start = lines.findIndex((line, i) => i > lines.length * 0.3 && REFERENCES_HEADING.test(line.text));
+            if (start > 0) {
+                console.log(`📚 Skipping references from page ${lines[start].page}`);
+                lines = lines.slice(0, start);
+            }
+        }
+
+        const { info } = await document.getMetadata().catch(() => ({ info: {} }));
+
+        return {
+            title: getTitle(info as Record<string, any>, lines),
+            authors: getAuthors(info as Record<string, any>),
+            blocks: buildBlocks(lines),
+            pageCount: document.numPages,
+        };
+    } finally {
+        await document.destroy();
+    }
+}
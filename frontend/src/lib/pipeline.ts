@@ -0,0 +1,302 @@
+/**
+ * Podcast Generation Pipeline
+ * Runs extract → summarize → synthesize → upload → transcript for one podcast
+ * Each stage checkpoints its output on the podcast record (audio goes to checkpoints.ts),
+ * so a re-run resumes from the first incomplete stage.
+ * "Full" length documents too long for one episode become a series at extraction (see series.ts).
+ * Cancellation arrives as an AbortSignal and is checked between stages.
+ * Fine-grained progress is saved as podcast.progress and streamed by /api/podcasts/[id]/events.
+ * Each stage is retried with exponential backoff before the run fails:
+ * - PIPELINE_STAGE_MAX_ATTEMPTS: tries per stage (default 3)
+ * - PIPELINE_RETRY_BASE_MS: delay before the first retry, doubled each time (default 2000)
+ */
+
+import { Podcast, PipelineStage, PodcastProgress, PIPELINE_STAGES, getPodcast, updatePodcast, setPodcastStatus, createTranscriptBatch } from './db';
+import { extractContent } from './extractor';
+import { summarizeForDuration } from './openai';
+import { generateAudio, TTSSegment } from './tts';
+import { uploadAudio, readStoredFile, setAudioPublic } from './storage';
+import { saveAudioCheckpoint, loadAudioCheckpoint, deleteAudioCheckpoint } from './checkpoints';
+import { tagPodcastAudio } from './tagging';
+import { splitIntoEpisodes, createSeriesEpisodes } from './series';
+
+const STAGE_MAX_ATTEMPTS = parseInt(process.env.PIPELINE_STAGE_MAX_ATTEMPTS || '3', 10);
+const RETRY_BASE_MS = parseInt(process.env.PIPELINE_RETRY_BASE_MS || '2000', 10);
+
+// Share of the overall progress bar each stage accounts for (TTS dominates)
+const STAGE_WEIGHTS: Record<PipelineStage, number> = {
+    extract: 10,
+    summarize: 20,
+    synthesize: 55,
+    upload: 10,
+    transcript: 5,
+};
+
+/**
+ * Record what the pipeline is doing right now
+ * `current`/`total` describe progress within the stage (e.g. chunks synthesized)
+ */
+async function reportProgress(
+    podcastId: string,
+    stage: PipelineStage,
+    message: string,
+    current?: number,
+    total?: number
+): Promise<void> {
+    const stageIndex = PIPELINE_STAGES.indexOf(stage);
+    const before = PIPELINE_STAGES.slice(0, stageIndex).reduce((sum, s) => sum + STAGE_WEIGHTS[s], 0);
+    const within = total ? STAGE_WEIGHTS[stage] * Math.min(1, (current || 0) / total) : 0;
+
+    const progress: PodcastProgress = {
+        stage,
+        message,
+        current,
+        total,
+        percent: Math.round(before + within),
+    };
+
+    await updatePodcast(podcastId, { progress });
+}
+
+/**
+ * Stop if the podcast was cancelled, either through the signal (this process)
+ * or on the record (cancelled while another process was running it)
+ */
+async function throwIfCancelled(podcastId: string, signal?: AbortSignal): Promise<void> {
+    const current = await getPodcast(podcastId);
+
+    if (signal?.aborted || !current || current.status === 'cancelled') {
+        throw new Error('Podcast generation was cancelled');
+    }
+}
+
+/**
+ * Move the podcast on to a stage's status, stopping if it was cancelled
+ * The check and the status change are one write, so a cancel can't be overwritten.
+ */
+async function enterStatus(
+    podcastId: string,
+    status: Podcast['status'],
+    signal?: AbortSignal,
+    updates?: Partial<Podcast>
+): Promise<void> {
+    if (signal?.aborted || !(await setPodcastStatus(podcastId, status, updates))) {
+        throw new Error('Podcast generation was cancelled');
+    }
+}
+
+/**
+ * Run one pipeline stage, retrying failures with exponential backoff
+ * Every failed try is recorded as the podcast's lastError
+ */
+async function runStage<T>(podcastId: string, stage: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error: any) {
+            if (signal?.aborted) throw error;
+
+            const message = `${stage}: ${error.message || 'Unknown error'}`;
+            await updatePodcast(podcastId, { lastError: message });
+
+            if (attempt >= STAGE_MAX_ATTEMPTS) {
+                throw new Error(message);
+            }
+
+            const delay = RETRY_BASE_MS * Math.pow(2, attempt - 1);
+            console.warn(`⚠️ ${message} (try ${attempt}/${STAGE_MAX_ATTEMPTS}, retrying in ${delay}ms)`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            await throwIfCancelled(podcastId, signal);
+        }
+    }
+}
+
+/**
+ * Mark a stage as done, saving its output on the podcast record
+ */
+async function completeStage(podcast: Podcast, stage: PipelineStage, output: Partial<Podcast>): Promise<Podcast> {
+    const completedStages = [...(podcast.completedStages || []).filter(s => s !== stage), stage];
+    const updated = await updatePodcast(podcast.id, { ...output, completedStages });
+
+    if (!updated) {
+        throw new Error('Podcast was deleted during generation');
+    }
+    return updated;
+}
+
+/**
+ * Spread the duration evenly over the script's sentences
+ * Only for podcasts synthesized before sentence timings were recorded
+ */
+function evenSentenceTimings(content: string, duration: number): TTSSegment[] {
+    const sentences = content.split(/(?<=[.!?])\s+/).filter(s => s.trim());
+    const timePerSentence = duration / Math.max(sentences.length, 1);
+
+    return sentences.map((text, i) => ({
+        text: text.trim(),
+        startTime: i * timePerSentence,
+        endTime: (i + 1) * timePerSentence,
+    }));
+}
+
+/**
+ * Process podcast generation, skipping stages completed by an earlier run
+ * Throws if a stage fails after all retries - the job queue records the failure
+ */
+export async function processPodcast(podcastId: string, signal?: AbortSignal): Promise<void> {
+    let podcast = await getPodcast(podcastId);
+
+    if (!podcast) {
+        console.log(`⏭️ Podcast ${podcastId} no longer exists, skipping`);
+        return;
+    }
+
+    const done = new Set(podcast.completedStages || []);
+    let audio: Buffer | null = null;
+
+    // Synthesized audio only lives on the server that made it - redo TTS if it's gone
+    if (done.has('synthesize') && !done.has('upload')) {
+        audio = await loadAudioCheckpoint(podcast.id, podcast.audioFormat || 'mp3');
+        if (!audio) done.delete('synthesize');
+    }
+
+    const resumeFrom = PIPELINE_STAGES.find(stage => !done.has(stage));
+    if (done.size > 0) {
+        console.log(`🎙️ Resuming podcast generation at ${resumeFrom}: ${podcast.id}`);
+    } else {
+        console.log(`🎙️ Starting podcast generation: ${podcast.id}`);
+    }
+    console.log(`📊 Duration type: ${podcast.durationType}`);
+
+    // 1. Extract content
+    if (!done.has('extract')) {
+        await enterStatus(podcast.id, 'extracting', signal);
+        await reportProgress(podcast.id, 'extract', 'Reading content');
+
+        const { sourceUrl, sourceText, sourceFile, sourceChapter, skipReferences } = podcast;
+        const extracted = await runStage(podcast.id, 'extract', async () => {
+            const document = sourceFile && {
+                data: await readStoredFile(sourceFile.key),
+                name: sourceFile.name,
+                contentType: sourceFile.contentType,
+            };
+            return extractContent(sourceUrl, sourceText, document, { skipReferences, chapter: sourceChapter });
+        }, signal);
+
+        const details = {
+            title: extracted.title,
+            author: extracted.author,
+            authors: extracted.authors,
+            canonicalUrl: extracted.canonicalUrl,
+            publishedAt: extracted.publishedAt,
+            siteName: extracted.siteName,
+            language: extracted.language,
+            imageUrl: extracted.imageUrl,
+        };
+
+        // Episodes of a series are never split again
+        const parts = podcast.durationType === 'full' && !podcast.seriesId ? splitIntoEpisodes(extracted) : [];
+        // The series is saved with the extract stage, so a resumed run can't create it twice
+        podcast = parts.length > 1
+            ? await createSeriesEpisodes(podcast, details, parts)
+            : await completeStage(podcast, 'extract', { ...details, extractedText: extracted.content });
+        const extractedWords = (podcast.extractedText || '').split(/\s+/).length;
+        await reportProgress(podcast.id, 'extract', `Extracted ${extractedWords} words`, 1, 1);
+        console.log(`📝 Extracted: "${podcast.title}" (${extractedWords} words)`);
+    }
+
+    // 2. Summarize content using OpenAI (for shorter durations)
+    if (!done.has('summarize')) {
+        await enterStatus(podcast.id, 'processing', signal);
+        await reportProgress(podcast.id, 'summarize', 'Writing script');
+
+        const { title, author, durationType } = podcast;
+        const rawContent = podcast.extractedText || '';
+        const { summary, wordCount } = await runStage(podcast.id, 'summarize', () =>
+            summarizeForDuration({ content: rawContent, title, durationType, author, signal }),
+            signal
+        );
+
+        podcast = await completeStage(podcast, 'summarize', { script: summary });
+        await reportProgress(podcast.id, 'summarize', `Script ready: ${wordCount} words`, 1, 1);
+        console.log(`📏 Final content: ${wordCount} words (~${Math.round(wordCount / 150)} min)`);
+    }
+
+    const content = podcast.script || '';
+
+    // 3. Generate audio
+    if (!done.has('synthesize')) {
+        await enterStatus(podcast.id, 'generating_audio', signal);
+        await reportProgress(podcast.id, 'synthesize', 'Synthesizing audio');
+
+        const { voiceStyle } = podcast;
+        const result = await runStage(podcast.id, 'synthesize', () =>
+            generateAudio(content, voiceStyle, {
+                signal,
+                onProgress: (completed, total) => {
+                    reportProgress(podcastId, 'synthesize', `Chunk ${completed}/${total} synthesized`, completed, total)
+                        .catch(console.error);
+                },
+            }),
+            signal
+        );
+
+        await saveAudioCheckpoint(podcast.id, result.audio, result.format);
+        audio = result.audio;
+        podcast = await completeStage(podcast, 'synthesize', {
+            audioFormat: result.format,
+            audioDurationSeconds: result.duration,
+            sentenceTimings: result.segments,
+        });
+    }
+
+    // 4. Upload to storage
+    if (!done.has('upload')) {
+        await enterStatus(podcast.id, 'uploading', signal);
+        await reportProgress(podcast.id, 'upload', 'Uploading audio');
+
+        const format = podcast.audioFormat || 'mp3';
+        // Tag on upload so the checkpoint stays plain audio
+        const podcastAudio = format === 'mp3' ? tagPodcastAudio(podcast, audio as Buffer) : audio as Buffer;
+        const stored = await runStage(podcast.id, 'upload', async () => {
+            // Re-read sharing, which may have been toggled while the audio was generated
+            const isPublic = (await getPodcast(podcastId))?.isPublic ?? false;
+            return { ...(await uploadAudio(podcastAudio, podcastId, format, isPublic)), isPublic };
+        }, signal);
+
+        podcast = await completeStage(podcast, 'upload', {
+            audioUrl: stored.url,
+            audioKey: stored.key,
+            audioSizeBytes: podcastAudio.length,
+        });
+
+        // Sharing toggled during the upload couldn't reach the file, which had no key yet
+        const uploaded = podcast;
+        if (uploaded.isPublic !== stored.isPublic) {
+            await runStage(uploaded.id, 'upload', () => setAudioPublic(uploaded, uploaded.isPublic), signal);
+        }
+        await deleteAudioCheckpoint(podcast.id);
+    }
+
+    const duration = podcast.audioDurationSeconds || 0;
+
+    // 5. Create transcript segments
+    if (!done.has('transcript')) {
+        await throwIfCancelled(podcast.id, signal);
+
+        const segments = podcast.sentenceTimings || evenSentenceTimings(content, duration);
+
+        await runStage(podcast.id, 'transcript', () => createTranscriptBatch(podcastId, segments), signal);
+        podcast = await completeStage(podcast, 'transcript', { sentenceTimings: undefined });
+        await reportProgress(podcast.id, 'transcript', `Saved ${segments.length} transcript segments`, 1, 1);
+    }
+
+    // 6. Mark completed
+    await enterStatus(podcast.id, 'completed', signal, {
+        audioDurationSeconds: Math.round(duration),
+        errorMessage: undefined,
+        completedAt: new Date().toISOString(),
+    });
+
+    console.log(`✅ Podcast completed: ${podcast.id} (${Math.round(duration / 60)} min)`);
+}
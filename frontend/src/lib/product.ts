@@ -0,0 +1,6 @@
+/**
+ * Product Name
+ * Shown in the UI and written into generated audio tags and feeds
+ */
+
+export const PRODUCT_NAME = 'Read-It-Out AI';
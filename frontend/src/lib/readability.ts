@@ -0,0 +1,338 @@
+/**
+ * Readability
+ * Finds the main content of a web page with a DOM-based scorer (after Mozilla's Readability):
+ * paragraphs award points to their ancestors for text length and commas, containers are
+ * weighted by semantic tags (<article>, <main>) and class/id hints, and penalised for link
+ * density. The winning container, plus siblings that score close to it, is flattened into
+ * structured blocks (headings, paragraphs, list items, quotes, preformatted text).
+ */
+
+import * as cheerio from 'cheerio';
+import type { CheerioAPI, Cheerio } from 'cheerio';
+import type { AnyNode, Element, Text } from 'domhandler';
+
+export interface ContentBlock {
+    type: 'heading' | 'paragraph' | 'list-item' | 'quote' | 'preformatted';
+    text: string;
+    /** 1-6, for headings */
+    level?: number;
+}
+
+// Never content
+const REMOVE_SELECTOR = [
+    'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button',
+    'input', 'select', 'textarea', 'nav', 'footer', 'aside', 'dialog', 'menu',
+    '[hidden]', '[aria-hidden="true"]', '[role="navigation"]', '[role="complementary"]',
+    '[role="dialog"]', '[role="banner"]', '[role="contentinfo"]',
+].join(', ');
+
+// Class/id hints, as in Readability
+const UNLIKELY_CANDIDATE = /-ad-|ad-break|agegate|banner|breadcrumb|combx|comment|community|cookie|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|pager|pagination|popup|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|promo/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow|story/i;
+const POSITIVE_HINT = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_HINT = /-ad-|banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+const BLOCK_TAGS = new Set([
+    'address', 'article', 'aside', 'blockquote', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset',
+    'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li',
+    'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th',
+    'thead', 'tr', 'ul',
+]);
+
+// Elements whose text is scored directly
+const SCORABLE_SELECTOR = 'p, pre, td, blockquote, li, section, div';
+
+// Shorter paragraphs don't contribute to container scores
+const MIN_SCORED_TEXT = 25;
+// Minimum text for a page to count as extracted
+const MIN_ARTICLE_TEXT = 250;
+
+function normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function getHints(element: Element): string {
+    return `${element.attribs.class || ''} ${element.attribs.id || ''}`;
+}
+
+function hasBlockChildren(element: Element): boolean {
+    return element.children.some(child => child.type === 'tag' && BLOCK_TAGS.has((child as Element).tagName));
+}
+
+/**
+ * Share of an element's text that sits inside links
+ */
+function getLinkDensity($: CheerioAPI, node: Cheerio<AnyNode>): number {
+    const textLength = normalizeText(node.text()).length;
+    if (!textLength) return 0;
+
+    let linkLength = 0;
+    node.find('a').each((_, link) => {
+        const href = link.attribs.href || '';
+        // In-page anchors (footnotes, tables of contents) count for less
+        const weight = href.startsWith('#') ? 0.3 : 1;
+        linkLength += normalizeText($(link).text()).length * weight;
+    });
+
+    return linkLength / textLength;
+}
+
+function getInitialScore(element: Element): number {
+    let score = 0;
+
+    switch (element.tagName) {
+        case 'article':
+            score += 15;
+            break;
+        case 'main':
+            score += 10;
+            break;
+        case 'div':
+        case 'section':
+            score += 5;
+            break;
+        case 'pre':
+        case 'td':
+        case 'blockquote':
+            score += 3;
+            break;
+        case 'address':
+        case 'ol':
+        case 'ul':
+        case 'dl':
+        case 'dd':
+        case 'dt':
+        case 'li':
+            score -= 3;
+            break;
+        case 'h1':
+        case 'h2':
+        case 'h3':
+        case 'h4':
+        case 'h5':
+        case 'h6':
+        case 'th':
+            score -= 5;
+            break;
+    }
+
+    const hints = getHints(element);
+    if (POSITIVE_HINT.test(hints)) score += 25;
+    if (NEGATIVE_HINT.test(hints)) score -= 25;
+    if (element.attribs.itemprop === 'articleBody') score += 25;
+
+    return score;
+}
+
+/**
+ * Drop boilerplate before scoring: non-content tags and containers whose
+ * class/id mark them as comments, sidebars, share bars and the like
+ */
+function removeClutter($: CheerioAPI): void {
+    $(REMOVE_SELECTOR).remove();
+    $('[style]').filter((_, el) => /display\s*:\s*none|visibility\s*:\s*hidden/i.test(el.attribs.style)).remove();
+
+    $('body *').filter((_, el) => {
+        if (el.tagName === 'article' || el.tagName === 'main') return false;
+        if ($(el).closest('article, main, [itemprop="articleBody"]').length && !/comment|disqus|replies/i.test(getHints(el))) {
+            // Inside an explicit article only comment threads are unlikely
+            return false;
+        }
+        const hints = getHints(el);
+        return UNLIKELY_CANDIDATE.test(hints) && !MAYBE_CANDIDATE.test(hints);
+    }).remove();
+
+    // <header> inside an article often holds the title and byline - only drop page headers
+    $('header').filter((_, el) => !$(el).closest('article').length).remove();
+}
+
+/**
+ * Score containers by the paragraphs inside them and return the best one
+ */
+function findTopCandidate($: CheerioAPI): { candidate: Element; score: number; scores: Map<Element, number> } | null {
+    const scores = new Map<Element, number>();
+
+    $(SCORABLE_SELECTOR).each((_, element) => {
+        // Containers with block children are scored through their paragraphs instead
+        if ((element.tagName === 'div' || element.tagName === 'section') && hasBlockChildren(element)) return;
+
+        const text = normalizeText($(element).text());
+        if (text.length < MIN_SCORED_TEXT) return;
+
+        // One point, plus one per comma, plus one per 100 characters (up to 3)
+        const contentScore = 1 + text.split(/[,，、]/).length - 1 + Math.min(3, Math.floor(text.length / 100));
+
+        $(element).parents().slice(0, 3).each((level, ancestor) => {
+            if (!scores.has(ancestor)) {
+                scores.set(ancestor, getInitialScore(ancestor));
+            }
+            const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+            scores.set(ancestor, scores.get(ancestor)! + contentScore / divider);
+        });
+    });
+
+    let best: { candidate: Element; score: number; scores: Map<Element, number> } | null = null;
+
+    for (const [element, score] of Array.from(scores)) {
+        if (element.tagName === 'html' || element.tagName === 'body') continue;
+
+        const adjusted = score * (1 - getLinkDensity($, $(element)));
+        scores.set(element, adjusted);
+        if (!best || adjusted > best.score) {
+            best = { candidate: element, score: adjusted, scores };
+        }
+    }
+
+    return best;
+}
+
+/**
+ * The top candidate plus siblings that look like part of the same article
+ * (content is often split across sibling <div>s)
+ */
+function gatherArticle($: CheerioAPI, top: Element, topScore: number, scores: Map<Element, number>): Element[] {
+    const threshold = Math.max(10, topScore * 0.2);
+    const parent = top.parent;
+    if (!parent || parent.type !== 'tag') return [top];
+
+    return $(parent).children().toArray().filter(sibling => {
+        if (sibling === top) return true;
+
+        let bonus = 0;
+        if (sibling.attribs.class && sibling.attribs.class === top.attribs.class) {
+            bonus += topScore * 0.2;
+        }
+        if ((scores.get(sibling) || 0) + bonus >= threshold) return true;
+
+        if (sibling.tagName === 'p') {
+            const text = normalizeText($(sibling).text());
+            const linkDensity = getLinkDensity($, $(sibling));
+            return (text.length > 80 && linkDensity < 0.25)
+                || (text.length > 0 && linkDensity === 0 && /\.( |$)/.test(text));
+        }
+        return false;
+    });
+}
+
+/**
+ * Flatten a container into blocks, in document order
+ * Inline runs between block elements become their own paragraph
+ */
+function collectBlocks($: CheerioAPI, container: Element, blocks: ContentBlock[]): void {
+    let inlineText = '';
+
+    const flush = () => {
+        const text = normalizeText(inlineText);
+        if (text) blocks.push({ type: 'paragraph', text });
+        inlineText = '';
+    };
+
+    for (const node of container.children) {
+        if (node.type === 'text') {
+            inlineText += (node as Text).data;
+            continue;
+        }
+        if (node.type !== 'tag') continue;
+
+        const element = node as Element;
+        const tag = element.tagName;
+
+        if (!BLOCK_TAGS.has(tag)) {
+            inlineText += tag === 'br' ? '\n' : $(element).text();
+            continue;
+        }
+
+        flush();
+
+        // Lists and tables of links are navigation, not content
+        if (['ul', 'ol', 'dl', 'table'].includes(tag) && getLinkDensity($, $(element)) > 0.5) continue;
+
+        if (/^h[1-6]$/.test(tag)) {
+            const text = normalizeText($(element).text());
+            if (text) blocks.push({ type: 'heading', text, level: Number(tag[1]) });
+        } else if (tag === 'p' || tag === 'dt' || tag === 'dd' || tag === 'figcaption' || tag === 'summary') {
+            const text = normalizeText($(element).text());
+            if (text) blocks.push({ type: 'paragraph', text });
+        } else if (tag === 'pre') {
+            const text = $(element).text().trim();
+            if (text) blocks.push({ type: 'preformatted', text });
+        } else if (tag === 'blockquote') {
+            const text = normalizeText($(element).text());
+            if (text) blocks.push({ type: 'quote', text });
+        } else if (tag === 'li') {
+            // The item's own text, then any nested list
+            const own = $(element).clone();
+            own.find('ul, ol').remove();
+            const text = normalizeText(own.text());
+            if (text) blocks.push({ type: 'list-item', text });
+            $(element).children('ul, ol').each((_, list) => collectBlocks($, list, blocks));
+        } else if (tag !== 'hr') {
+            collectBlocks($, element, blocks);
+        }
+    }
+
+    flush();
+}
+
+/**
+ * Filter leftovers that survived scoring: "Share", "Advertisement", link rows
+ */
+function isBoilerplate(block: ContentBlock): boolean {
+    if (block.type !== 'paragraph') return false;
+    return block.text.length < 20 && !/[.!?:"'”’)]$/.test(block.text);
+}
+
+/**
+ * Extract the main content of an HTML page as structured blocks
+ * Returns an empty list when no article-like content is found
+ */
+export function extractArticleBlocks(html: string): ContentBlock[] {
+    const $ = cheerio.load(html);
+    removeClutter($);
+
+    const top = findTopCandidate($);
+    const containers = top ? gatherArticle($, top.candidate, top.score, top.scores) : [];
+
+    let blocks: ContentBlock[] = [];
+    for (const container of containers) {
+        collectBlocks($, container, blocks);
+    }
+    blocks = blocks.filter(block => !isBoilerplate(block));
+
+    // Pages without a clear winner (short posts, unusual markup): read the whole body
+    if (blocks.reduce((sum, block) => sum + block.text.length, 0) < MIN_ARTICLE_TEXT) {
+        const body = $('body').get(0);
+        blocks = [];
+        if (body) collectBlocks($, body, blocks);
+        blocks = blocks.filter(block => !isBoilerplate(block));
+    }
+
+    return blocks;
+}
+
+/**
+ * Flatten a whole document into blocks, without looking for the main content
+ * For documents that are all content, like EPUB chapters
+ */
+export function extractDocumentBlocks(html: string): ContentBlock[] {
+    const $ = cheerio.load(html);
+    $(REMOVE_SELECTOR).remove();
+
+    const body = $('body').get(0);
+    const blocks: ContentBlock[] = [];
+    if (body) collectBlocks($, body, blocks);
+    return blocks;
+}
+
+/**
+ * Plain text for narration: one block per paragraph, with headings and list
+ * items closed by a full stop so they're read as separate sentences
+ */
+export function blocksToText(blocks: ContentBlock[]): string {
+    return blocks.map(block => {
+        if ((block.type === 'heading' || block.type === 'list-item') && !/[.!?:;]$/.test(block.text)) {
+            return `${block.text}.`;
+        }
+        return block.text;
+    }).join('\n\n');
+}
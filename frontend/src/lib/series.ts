@@ -0,0 +1,228 @@
+/**
+ * Series
+ * Splits documents too long for one episode ("full" length books and reports) into a
+ * series of episodes, cut at chapter/section headings where the document has them.
+ * Episodes are generated one after another (see jobs.ts), so the first is ready to
+ * play while the rest are still queued.
+ * - SERIES_EPISODE_MINUTES: target episode length (default 45)
+ */
+
+import { Podcast, createSeries } from './db';
+import { ExtractedContent } from './extractor';
+import { ContentBlock, blocksToText } from './readability';
+
+const EPISODE_MINUTES = parseInt(process.env.SERIES_EPISODE_MINUTES || '45', 10);
+// Narration pace used for length estimates throughout the pipeline
+const WORDS_PER_MINUTE = 150;
+
+export interface EpisodePart {
+    /** Heading the episode starts at, if the document has headings */
+    title?: string;
+    content: string;
+    wordCount: number;
+}
+
+export interface SeriesProgress {
+    status: 'processing' | 'completed' | 'failed' | 'cancelled';
+    completedEpisodes: number;
+    totalEpisodes: number;
+    percent: number;
+}
+
+interface Section {
+    title?: string;
+    units: string[];
+    wordCount: number;
+}
+
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+function newSection(title?: string): Section {
+    return { title, units: [], wordCount: 0 };
+}
+
+function addUnit(section: Section, unit: string): void {
+    section.units.push(unit);
+    section.wordCount += countWords(unit);
+}
+
+/**
+ * Split text that is longer than one episode at sentence ends
+ */
+function splitLongText(text: string, maxWords: number): string[] {
+    if (countWords(text) <= maxWords) return [text];
+
+    const pieces: string[] = [];
+    let current = '';
+    for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+        if (current && countWords(current) + countWords(sentence) > maxWords) {
+            pieces.push(current);
+            current = '';
+        }
+        current = current ? `${current} ${sentence}` : sentence;
+    }
+    if (current) pieces.push(current);
+    return pieces;
+}
+
+/**
+ * The heading level chapters start at: the highest level used more than once
+ */
+function getChapterLevel(blocks: ContentBlock[]): number | null {
+    for (let level = 1; level <= 6; level++) {
+        if (blocks.filter(block => block.type === 'heading' && block.level === level).length > 1) {
+            return level;
+        }
+    }
+    return null;
+}
+
+/**
+ * The content as sections starting at chapter headings, plus the intro read before them
+ */
+function getSections(extracted: ExtractedContent): { intro: string; sections: Section[] } {
+    const blocks = extracted.blocks || [];
+    const body = blocksToText(blocks);
+
+    // Without blocks (pasted text, threads) the paragraphs are all there is
+    if (!blocks.length || !extracted.content.endsWith(body)) {
+        const section = newSection();
+        extracted.content.split(/\n{2,}/).filter(text => text.trim()).forEach(text => addUnit(section, text.trim()));
+        return { intro: '', sections: [section] };
+    }
+
+    const chapterLevel = getChapterLevel(blocks);
+    const sections: Section[] = [newSection()];
+
+    for (const block of blocks) {
+        const current = sections[sections.length - 1];
+        if (block.type === 'heading' && chapterLevel !== null && (block.level || 0) <= chapterLevel && current.units.length) {
+            sections.push(newSection(block.text));
+        } else if (block.type === 'heading' && !current.units.length && !current.title) {
+            current.title = block.text;
+        }
+        addUnit(sections[sections.length - 1], blocksToText([block]));
+    }
+
+    return {
+        intro: extracted.content.slice(0, extracted.content.length - body.length).trim(),
+        sections,
+    };
+}
+
+/**
+ * Split extracted content into episodes of about SERIES_EPISODE_MINUTES
+ * Whole sections are kept together where they fit; short ones share an episode.
+ * Returns a single part when the content fits in one episode.
+ */
+export function splitIntoEpisodes(extracted: ExtractedContent): EpisodePart[] {
+    const targetWords = EPISODE_MINUTES * WORDS_PER_MINUTE;
+    const totalWords = countWords(extracted.content);
+
+    // Some slack, so a slightly long article isn't followed by a two-minute episode
+    if (totalWords <= targetWords * 1.5) {
+        return [{ content: extracted.content, wordCount: totalWords }];
+    }
+
+    const { intro, sections } = getSections(extracted);
+
+    // Break up sections (and paragraphs) longer than an episode
+    const pieces: Section[] = [];
+    for (const section of sections) {
+        if (section.wordCount <= targetWords * 1.5) {
+            pieces.push(section);
+            continue;
+        }
+
+        let piece = newSection(section.title);
+        for (const unit of section.units.flatMap(unit => splitLongText(unit, targetWords))) {
+            if (piece.units.length && piece.wordCount + countWords(unit) > targetWords) {
+                pieces.push(piece);
+                piece = newSection(section.title && `${section.title} (continued)`);
+            }
+            addUnit(piece, unit);
+        }
+        pieces.push(piece);
+    }
+
+    const episodes: Section[][] = [];
+    let current: Section[] = [];
+    let currentWords = 0;
+    for (const piece of pieces.filter(p => p.units.length)) {
+        if (current.length && currentWords + piece.wordCount > targetWords) {
+            episodes.push(current);
+            current = [];
+            currentWords = 0;
+        }
+        current.push(piece);
+        currentWords += piece.wordCount;
+    }
+    if (current.length) episodes.push(current);
+
+    return episodes.map((episode, i) => {
+        const text = episode.flatMap(section => section.units).join('\n\n');
+        const content = i === 0 && intro ? `${intro}\n\n${text}` : text;
+        return {
+            // A heading repeating the document title doesn't name the episode
+            title: episode.find(section => section.title && section.title !== extracted.title)?.title,
+            content,
+            wordCount: countWords(content),
+        };
+    });
+}
+
+export function getEpisodeTitle(seriesTitle: string, part: EpisodePart, episodeNumber: number): string {
+    return `${seriesTitle}: ${part.title ? `${episodeNumber}. ${part.title}` : `Part ${episodeNumber}`}`.slice(0, 200);
+}
+
+/**
+ * Turn a podcast into the first episode of a new series and create the others
+ * Every episode starts with extraction done; later ones wait for the one before them.
+ * Returns the first episode.
+ */
+export async function createSeriesEpisodes(
+    podcast: Podcast,
+    details: Partial<Podcast> & { title: string },
+    parts: EpisodePart[]
+): Promise<Podcast> {
+    const episode = await createSeries(podcast.id, {
+        title: details.title,
+        author: details.author,
+        sourceUrl: details.canonicalUrl || podcast.sourceUrl,
+    }, parts.map((part, i) => ({
+        ...details,
+        title: getEpisodeTitle(details.title, part, i + 1),
+        extractedText: part.content,
+    })));
+
+    if (!episode) {
+        throw new Error('Podcast was deleted during generation');
+    }
+
+    console.log(`📚 Split "${details.title}" into ${parts.length} episodes (series ${episode.seriesId})`);
+    return episode;
+}
+
+/**
+ * Overall progress of a series from its episodes
+ */
+export function getSeriesProgress(episodes: Podcast[]): SeriesProgress {
+    const completedEpisodes = episodes.filter(e => e.status === 'completed').length;
+    const percent = episodes.length
+        ? episodes.reduce((sum, e) => sum + (e.status === 'completed' ? 100 : e.progress?.percent || 0), 0) / episodes.length
+        : 0;
+
+    let status: SeriesProgress['status'] = 'processing';
+    if (episodes.some(e => e.status === 'failed')) status = 'failed';
+    else if (episodes.some(e => e.status === 'cancelled')) status = 'cancelled';
+    else if (episodes.length && completedEpisodes === episodes.length) status = 'completed';
+
+    return {
+        status,
+        completedEpisodes,
+        totalEpisodes: episodes.length,
+        percent: Math.round(percent),
+    };
+}
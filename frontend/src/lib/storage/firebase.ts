@@ -0,0 +1,145 @@
+/**
+ * Firebase Storage Driver
+ * Stores audio in a Firebase Storage bucket. Files are private when uploaded:
+ * private podcasts are played through short-lived signed URLs, and a file only
+ * becomes publicly readable while its podcast is shared.
+ */
+
+import * as admin from 'firebase-admin';
+import { readFileSync } from 'fs';
+import { StorageDriver } from './types';
+
+let firebaseApp: admin.app.App | null = null;
+
+/**
+ * Initialize Firebase Admin SDK
+ * Supports both:
+ * - FIREBASE_CREDENTIALS: JSON string (for Vercel/production)
+ * - FIREBASE_CREDENTIALS_PATH: File path (for local development)
+ */
+function getFirebaseApp(): admin.app.App {
+    if (firebaseApp) {
+        return firebaseApp;
+    }
+
+    // Check if already initialized
+    if (admin.apps.length > 0) {
+        firebaseApp = admin.apps[0]!;
+        return firebaseApp;
+    }
+
+    const credentialsJson = process.env.FIREBASE_CREDENTIALS;
+    const credentialsPath = process.env.FIREBASE_CREDENTIALS_PATH;
+    const bucket = process.env.FIREBASE_STORAGE_BUCKET;
+
+    if (!bucket) {
+        throw new Error('FIREBASE_STORAGE_BUCKET is not configured');
+    }
+
+    let serviceAccount;
+
+    // Try JSON string first (for Vercel deployment)
+    if (credentialsJson) {
+        try {
+            serviceAccount = JSON.parse(credentialsJson);
+            console.log('🔐 Using Firebase credentials from FIREBASE_CREDENTIALS env var');
+        } catch (err) {
+            throw new Error('Failed to parse FIREBASE_CREDENTIALS JSON');
+        }
+    }
+    // Fall back to file path (for local development)
+    else if (credentialsPath) {
+        try {
+            const fileContent = readFileSync(credentialsPath, 'utf-8');
+            serviceAccount = JSON.parse(fileContent);
+            console.log('🔐 Using Firebase credentials from file');
+        } catch (err) {
+            throw new Error(`Failed to read Firebase credentials from ${credentialsPath}: ${err}`);
+        }
+    } else {
+        throw new Error('No Firebase credentials configured. Set FIREBASE_CREDENTIALS or FIREBASE_CREDENTIALS_PATH');
+    }
+
+    firebaseApp = admin.initializeApp({
+        credential: admin.credential.cert(serviceAccount),
+        storageBucket: bucket,
+    });
+
+    console.log('✅ Firebase initialized');
+
+    return firebaseApp;
+}
+
+// Caches keep serving a file after sharing is turned off, so shared files are only
+// cached for a few minutes and private ones not at all
+const PUBLIC_CACHE_CONTROL = 'public, max-age=300';
+const PRIVATE_CACHE_CONTROL = 'private, max-age=0';
+
+function getBucket() {
+    return getFirebaseApp().storage().bucket();
+}
+
+export class FirebaseStorageDriver implements StorageDriver {
+    readonly driver = 'firebase';
+
+    async put(key: string, data: Buffer, contentType: string): Promise<void> {
+        const file = getBucket().file(key);
+
+        console.log(`☁️ Uploading to Firebase: ${key}`);
+
+        await file.save(data, {
+            metadata: {
+                contentType,
+                cacheControl: PRIVATE_CACHE_CONTROL,
+            },
+        });
+    }
+
+    async deletePrefix(prefix: string): Promise<void> {
+        await getBucket().deleteFiles({ prefix });
+    }
+
+    async getUrl(key: string): Promise<string | null> {
+        return `https://storage.googleapis.com/${getBucket().name}/${key}`;
+    }
+
+    async getSignedUrl(key: string, expiresInSeconds: number): Promise<string | null> {
+        const [url] = await getBucket().file(key).getSignedUrl({
+            version: 'v4',
+            action: 'read',
+            expires: Date.now() + expiresInSeconds * 1000,
+        });
+        return url;
+    }
+
+    async setPublic(key: string, isPublic: boolean): Promise<void> {
+        const file = getBucket().file(key);
+
+        if (isPublic) {
+            await file.setMetadata({ cacheControl: PUBLIC_CACHE_CONTROL });
+            await file.makePublic();
+        } else {
+            await file.makePrivate();
+            await file.setMetadata({ cacheControl: PRIVATE_CACHE_CONTROL });
+        }
+
+        console.log(`🔒 ${isPublic ? 'Shared' : 'Unshared'} ${key}`);
+    }
+
+    async stat(key: string) {
+        try {
+            const [metadata] = await getBucket().file(key).getMetadata();
+            return {
+                size: Number(metadata.size),
+                contentType: metadata.contentType || 'application/octet-stream',
+            };
+        } catch (error: any) {
+            if (error.code === 404) return null;
+            throw error;
+        }
+    }
+
+    stream(key: string, range?: { start: number; end: number }) {
+        return getBucket().file(key).createReadStream(range ? { start: range.start, end: range.end } : {});
+    }
+}
@@ -0,0 +1,177 @@
+/**
+ * Audio Storage
+ * Where finished podcast audio (and uploaded source documents) is kept, selected with STORAGE_DRIVER:
+ * - firebase: Firebase Storage bucket (FIREBASE_STORAGE_BUCKET + credentials)
+ * - local: files on disk (STORAGE_LOCAL_DIR, default data/audio), served by /api/audio/[id]
+ * Defaults to firebase when FIREBASE_STORAGE_BUCKET is set, otherwise local.
+ * - AUDIO_URL_TTL_SECONDS: lifetime of signed URLs for private audio (default 3600)
+ */
+
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { StorageDriver } from './types';
+import { FirebaseStorageDriver } from './firebase';
+import { LocalStorageDriver } from './local';
+import type { AudioFormat } from '../tts';
+import { Podcast, getPodcast, getPodcastsWithPendingAudioAccess, updatePodcast } from '../db';
+
+export type { ByteRange, StorageDriver, StoredObjectInfo } from './types';
+
+const CONTENT_TYPES: Record<AudioFormat, string> = {
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+};
+
+/**
+ * Get the configured storage driver (created once per process)
+ */
+export function getStorage(): StorageDriver {
+    const globalStorage = globalThis as typeof globalThis & { __storage_driver?: StorageDriver };
+
+    if (globalStorage.__storage_driver) {
+        return globalStorage.__storage_driver;
+    }
+
+    const driver = process.env.STORAGE_DRIVER || (process.env.FIREBASE_STORAGE_BUCKET ? 'firebase' : 'local');
+
+    switch (driver) {
+        case 'firebase':
+            globalStorage.__storage_driver = new FirebaseStorageDriver();
+            break;
+        case 'local':
+            globalStorage.__storage_driver = new LocalStorageDriver(
+                process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'data', 'audio')
+            );
+            break;
+        default:
+            throw new Error(`Unknown STORAGE_DRIVER "${driver}". Use "firebase" or "local"`);
+    }
+
+    console.log(`📦 Audio storage: ${driver}`);
+    return globalStorage.__storage_driver;
+}
+
+function getPodcastPrefix(podcastId: string): string {
+    return `podcasts/${podcastId}/`;
+}
+
+function getUrlTtlSeconds(): number {
+    return parseInt(process.env.AUDIO_URL_TTL_SECONDS || '3600', 10);
+}
+
+/**
+ * Store a podcast's audio, readable by anyone only if the podcast is shared
+ * Returns the storage key and the podcast's permanent audio URL
+ */
+export async function uploadAudio(
+    audioBuffer: Buffer,
+    podcastId: string,
+    format: AudioFormat = 'mp3',
+    isPublic = false
+): Promise<{ key: string; url: string }> {
+    const storage = getStorage();
+    // A new name per upload, so cached copies of an earlier file are never served
+    const key = `${getPodcastPrefix(podcastId)}${uuidv4()}.${format}`;
+
+    await storage.put(key, audioBuffer, CONTENT_TYPES[format]);
+    if (isPublic) {
+        await storage.setPublic(key, true);
+    }
+
+    const url = (await storage.getUrl(key)) || `/api/audio/${podcastId}`;
+    console.log(`✅ Uploaded: ${url}`);
+
+    return { key, url };
+}
+
+/**
+ * Keep an uploaded source document until the podcast is deleted
+ * Returns its storage key
+ */
+export async function saveSourceFile(
+    podcastId: string,
+    filename: string,
+    data: Buffer,
+    contentType: string
+): Promise<string> {
+    // Only the extension of the user's filename is kept in the key
+    const extension = path.extname(filename).toLowerCase().replace(/[^.a-z0-9]/g, '');
+    const key = `${getPodcastPrefix(podcastId)}source/${uuidv4()}${extension}`;
+
+    await getStorage().put(key, data, contentType);
+    return key;
+}
+
+/**
+ * Read a stored file into memory
+ */
+export async function readStoredFile(key: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of getStorage().stream(key)) {
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks.map(buf => new Uint8Array(buf)));
+}
+
+/**
+ * URL a client can play the podcast's audio from right now
+ * Shared podcasts use their permanent URL; private ones get a fresh signed URL
+ */
+export async function resolveAudioUrl(podcast: Podcast): Promise<string | undefined> {
+    if (!podcast.audioUrl || !podcast.audioKey || podcast.isPublic) {
+        return podcast.audioUrl;
+    }
+
+    const signedUrl = await getStorage().getSignedUrl(podcast.audioKey, getUrlTtlSeconds());
+    return signedUrl || podcast.audioUrl;
+}
+
+/**
+ * Make a podcast's audio readable by anyone, or revoke that access
+ */
+export async function setAudioPublic(podcast: Podcast, isPublic: boolean): Promise<void> {
+    if (podcast.audioKey) {
+        await getStorage().setPublic(podcast.audioKey, isPublic);
+    }
+}
+
+/**
+ * Match stored audio's public access to its podcast where that is still pending
+ * (files uploaded when all audio was made public). Run on startup.
+ */
+export async function syncPendingAudioAccess(): Promise<void> {
+    const pending = await getPodcastsWithPendingAudioAccess();
+    if (pending.length === 0) return;
+
+    console.log(`🔒 Updating access to ${pending.length} audio files`);
+
+    for (const { id } of pending) {
+        try {
+            let podcast = await getPodcast(id);
+            let applied: boolean | undefined;
+
+            // Apply again if sharing was toggled while access was being set
+            while (podcast && podcast.isPublic !== applied) {
+                applied = podcast.isPublic;
+                await setAudioPublic(podcast, applied);
+                podcast = await getPodcast(id);
+            }
+            await updatePodcast(id, { audioAccessPending: undefined });
+        } catch (error) {
+            // Still flagged, so it's tried again on the next start
+            console.error(`Failed to update access to audio for podcast ${id}:`, error);
+        }
+    }
+}
+
+/**
+ * Delete all stored files for a podcast
+ */
+export async function deleteAudio(podcastId: string): Promise<void> {
+    try {
+        await getStorage().deletePrefix(getPodcastPrefix(podcastId));
+        console.log(`🗑️ Deleted files for podcast: ${podcastId}`);
+    } catch (error) {
+        console.error(`Failed to delete files for podcast ${podcastId}:`, error);
+    }
+}
@@ -0,0 +1,89 @@
+/**
+ * Local Disk Storage Driver
+ * Keeps audio under STORAGE_LOCAL_DIR (default data/audio). Files have no public URL -
+ * they're served by /api/audio/[id], which checks access first.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { ByteRange, StorageDriver, StoredObjectInfo } from './types';
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.mp3': 'audio/mpeg',
+    '.wav': 'audio/wav',
+    '.png': 'image/png',
+};
+
+export class LocalStorageDriver implements StorageDriver {
+    readonly driver = 'local';
+
+    constructor(private readonly root: string) { }
+
+    /**
+     * Absolute path for a key, refusing anything that escapes the storage root
+     */
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.root, key);
+        if (filePath !== path.resolve(this.root) && !filePath.startsWith(path.resolve(this.root) + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return filePath;
+    }
+
+    async put(key: string, data: Buffer, contentType: string): Promise<void> {
+        const filePath = this.resolve(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+        // Write then rename so readers never see a partial file
+        const tmpPath = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tmpPath, data);
+        await fs.rename(tmpPath, filePath);
+
+        console.log(`💾 Saved to local storage: ${key} (${contentType})`);
+    }
+
+    async deletePrefix(prefix: string): Promise<void> {
+        // "podcasts/<id>/" is a whole directory; otherwise match file names in the parent
+        if (prefix.endsWith('/')) {
+            await fs.rm(this.resolve(prefix), { recursive: true, force: true });
+            return;
+        }
+
+        const dir = this.resolve(path.dirname(prefix));
+        const entries = await fs.readdir(dir).catch(() => [] as string[]);
+        await Promise.all(entries
+            .filter(name => name.startsWith(path.basename(prefix)))
+            .map(name => fs.rm(path.join(dir, name), { recursive: true, force: true })));
+    }
+
+    async getUrl(): Promise<string | null> {
+        return null;
+    }
+
+    async getSignedUrl(): Promise<string | null> {
+        return null;
+    }
+
+    async setPublic(): Promise<void> {
+        // Access is checked per request by the audio routes
+    }
+
+    async stat(key: string): Promise<StoredObjectInfo | null> {
+        try {
+            const stats = await fs.stat(this.resolve(key));
+            if (!stats.isFile()) return null;
+
+            return {
+                size: stats.size,
+                contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream',
+            };
+        } catch (error: any) {
+            if (error.code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    stream(key: string, range?: ByteRange) {
+        return createReadStream(this.resolve(key), range ? { start: range.start, end: range.end } : {});
+    }
+}
@@ -0,0 +1,36 @@
+/**
+ * Storage Driver Types
+ */
+
+import type { Readable } from 'stream';
+
+export interface StoredObjectInfo {
+    /** Size in bytes */
+    size: number;
+    contentType: string;
+}
+
+export interface ByteRange {
+    /** First byte, inclusive */
+    start: number;
+    /** Last byte, inclusive */
+    end: number;
+}
+
+export interface StorageDriver {
+    readonly driver: string;
+    /** Store `data` under `key`, replacing any existing object */
+    put: (key: string, data: Buffer, contentType: string) => Promise<void>;
+    /** Delete every object whose key starts with `prefix` */
+    deletePrefix: (prefix: string) => Promise<void>;
+    /** Permanent URL of the object once it is public, or null if it must be served by the app */
+    getUrl: (key: string) => Promise<string | null>;
+    /** Short-lived URL for a private object, or null if it must be served by the app */
+    getSignedUrl: (key: string, expiresInSeconds: number) => Promise<string | null>;
+    /** Grant or revoke anonymous read access to an object */
+    setPublic: (key: string, isPublic: boolean) => Promise<void>;
+    /** Size and type of an object, or null if it doesn't exist */
+    stat: (key: string) => Promise<StoredObjectInfo | null>;
+    /** Read an object, or part of it */
+    stream: (key: string, range?: ByteRange) => Readable;
+}
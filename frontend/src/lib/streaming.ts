@@ -0,0 +1,121 @@
+/**
+ * Audio Streaming
+ * Serves stored podcast audio through the app with HTTP Range support, so players can
+ * seek without downloading the whole file. Used by /api/podcasts/[id]/audio and the
+ * local storage URLs (/api/audio/[id]).
+ *
+ * Access: the owner, anyone for shared podcasts, and podcast apps holding the
+ * owner's feed token (?feed=<token>). Everything else gets the same 404 as a
+ * missing podcast, so IDs can't be probed.
+ */
+
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import { Podcast, getPodcast, getFeedToken } from './db';
+import { ByteRange, getStorage } from './storage';
+import { getCurrentUserId } from './auth';
+
+async function canAccessAudio(request: NextRequest, podcast: Podcast): Promise<boolean> {
+    if (podcast.isPublic) return true;
+
+    const feed = request.nextUrl.searchParams.get('feed');
+    if (feed) {
+        const feedToken = await getFeedToken(feed);
+        return feedToken?.userId === podcast.userId;
+    }
+
+    return (await getCurrentUserId(request)) === podcast.userId;
+}
+
+/**
+ * Parse a Range header against a file size
+ * Returns null to serve the whole file (no header, or one we don't handle),
+ * or 'unsatisfiable' when the range lies outside the file
+ */
+export function parseRange(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+    // Multiple ranges are allowed to fall back to the full body
+    const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+    if (!match || (!match[1] && !match[2])) return null;
+
+    let start: number;
+    let end: number;
+
+    if (!match[1]) {
+        // Suffix range: the last N bytes
+        start = Math.max(0, size - Number(match[2]));
+        end = size - 1;
+    } else {
+        start = Number(match[1]);
+        end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+    }
+
+    if (start >= size || start > end) return 'unsatisfiable';
+    return { start, end };
+}
+
+function notFound() {
+    return NextResponse.json(
+        { error: 'Audio not found' },
+        { status: 404 }
+    );
+}
+
+/**
+ * Respond to a GET or HEAD for a podcast's audio
+ */
+export async function serveAudio(request: NextRequest, podcastId: string): Promise<NextResponse> {
+    const podcast = await getPodcast(podcastId);
+
+    if (!podcast || !podcast.audioKey || !(await canAccessAudio(request, podcast))) {
+        return notFound();
+    }
+
+    const storage = getStorage();
+    const info = await storage.stat(podcast.audioKey);
+
+    if (!info) {
+        return notFound();
+    }
+
+    // Keys are never reused (each upload gets a new name), so the key identifies the content
+    const etag = `"${createHash('sha1').update(`${podcast.audioKey}:${info.size}`).digest('hex').slice(0, 27)}"`;
+
+    const headers: Record<string, string> = {
+        'Accept-Ranges': 'bytes',
+        'Content-Type': info.contentType,
+        'ETag': etag,
+        // Shared caches keep serving public audio after it's unshared - keep that short
+        'Cache-Control': podcast.isPublic ? 'public, max-age=300' : 'private, max-age=3600',
+        // Access depends on the session or feed token, not just the URL
+        'Vary': 'Cookie, Authorization',
+    };
+
+    if (request.headers.get('if-none-match') === etag) {
+        return new NextResponse(null, { status: 304, headers });
+    }
+
+    // A stale If-Range means the client's partial copy is outdated - send everything
+    const ifRange = request.headers.get('if-range');
+    const range = ifRange && ifRange !== etag ? null : parseRange(request.headers.get('range'), info.size);
+
+    if (range === 'unsatisfiable') {
+        return new NextResponse(null, {
+            status: 416,
+            headers: { ...headers, 'Content-Range': `bytes */${info.size}` },
+        });
+    }
+
+    const status = range ? 206 : 200;
+    if (range) {
+        headers['Content-Range'] = `bytes ${range.start}-${range.end}/${info.size}`;
+    }
+    headers['Content-Length'] = (range ? range.end - range.start + 1 : info.size).toString();
+
+    if (request.method === 'HEAD') {
+        return new NextResponse(null, { status, headers });
+    }
+
+    const body = Readable.toWeb(storage.stream(podcast.audioKey, range || undefined)) as ReadableStream<Uint8Array>;
+    return new NextResponse(body, { status, headers });
+}
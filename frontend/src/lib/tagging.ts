@@ -0,0 +1,66 @@
+/**
+ * Podcast Audio Metadata
+ * Builds the ID3 tag for a podcast's MP3: title, author, source URL, creation date,
+ * generated cover art and chapters made from the sentence timings.
+ * - AUDIO_CHAPTER_SECONDS: target chapter length (default 300)
+ */
+
+import { Podcast } from './db';
+import { Id3Chapter, writeId3Tag } from './id3';
+import { generateCoverImage } from './cover';
+import { PRODUCT_NAME } from './product';
+import type { TTSSegment } from './tts';
+
+const CHAPTER_SECONDS = parseInt(process.env.AUDIO_CHAPTER_SECONDS || '300', 10);
+const CHAPTER_TITLE_LENGTH = 60;
+
+function toChapterTitle(text: string): string {
+    const title = text.trim();
+    if (title.length <= CHAPTER_TITLE_LENGTH) return title;
+
+    const cut = title.slice(0, CHAPTER_TITLE_LENGTH);
+    return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+}
+
+/**
+ * Group sentences into chapters of roughly AUDIO_CHAPTER_SECONDS,
+ * each named after its opening sentence
+ */
+export function buildChapters(segments: TTSSegment[], duration: number): Id3Chapter[] {
+    const chapters: Id3Chapter[] = [];
+
+    for (const segment of segments) {
+        const current = chapters[chapters.length - 1];
+        if (!current || segment.startTime - current.startTime >= CHAPTER_SECONDS) {
+            chapters.push({ title: toChapterTitle(segment.text), startTime: segment.startTime, endTime: segment.endTime });
+        } else {
+            current.endTime = segment.endTime;
+        }
+    }
+
+    // A single chapter adds nothing
+    if (chapters.length < 2) return [];
+
+    // Chapters run back to back from the start to the end of the audio
+    chapters[0].startTime = 0;
+    chapters.forEach((chapter, i) => {
+        chapter.endTime = i + 1 < chapters.length ? chapters[i + 1].startTime : Math.max(chapter.endTime, duration);
+    });
+
+    return chapters;
+}
+
+/**
+ * Tag a podcast's MP3 audio
+ */
+export function tagPodcastAudio(podcast: Podcast, audio: Buffer): Buffer {
+    return writeId3Tag(audio, {
+        title: podcast.title,
+        artist: podcast.author,
+        album: PRODUCT_NAME,
+        url: podcast.canonicalUrl || podcast.sourceUrl,
+        date: new Date(podcast.createdAt),
+        cover: { mimeType: 'image/png', data: generateCoverImage(podcast.title) },
+        chapters: buildChapters(podcast.sentenceTimings || [], podcast.audioDurationSeconds || 0),
+    });
+}
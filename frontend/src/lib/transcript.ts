@@ -0,0 +1,180 @@
+/**
+ * Transcript API Helpers
+ * Shared by the owner and public transcript routes.
+ * Pages are selected with query parameters:
+ * - cursor: sentence index to start from (the previous page's next_cursor)
+ * - limit: segments per page (default 500, max 1000)
+ * - from / to: only segments overlapping this time range, in seconds
+ * ?format=srt|vtt|txt|md downloads the whole transcript as a file instead.
+ */
+
+import { TranscriptPage, TranscriptSegment } from './db';
+
+const DEFAULT_PAGE_SIZE = 500;
+const MAX_PAGE_SIZE = 1000;
+
+// Sentences per paragraph in the prose (txt/md) exports
+const PARAGRAPH_SENTENCES = 5;
+
+export const TRANSCRIPT_FORMATS = ['srt', 'vtt', 'txt', 'md'] as const;
+export type TranscriptFormat = typeof TRANSCRIPT_FORMATS[number];
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+    srt: 'application/x-subrip; charset=utf-8',
+    vtt: 'text/vtt; charset=utf-8',
+    txt: 'text/plain; charset=utf-8',
+    md: 'text/markdown; charset=utf-8',
+};
+
+export interface TranscriptQuery {
+    cursor?: number;
+    limit: number;
+    from?: number;
+    to?: number;
+}
+
+function parseNumber(searchParams: URLSearchParams, name: string): number | undefined {
+    const value = searchParams.get(name);
+    if (value === null || value === '') return undefined;
+
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+        throw new Error(`Invalid "${name}" parameter`);
+    }
+    return parsed;
+}
+
+/**
+ * Read pagination parameters, throwing on malformed values
+ */
+export function parseTranscriptQuery(searchParams: URLSearchParams): TranscriptQuery {
+    const cursor = parseNumber(searchParams, 'cursor');
+    const limit = parseNumber(searchParams, 'limit') ?? DEFAULT_PAGE_SIZE;
+
+    return {
+        cursor: cursor === undefined ? undefined : Math.floor(cursor),
+        limit: Math.max(1, Math.min(MAX_PAGE_SIZE, Math.floor(limit))),
+        from: parseNumber(searchParams, 'from'),
+        to: parseNumber(searchParams, 'to'),
+    };
+}
+
+/**
+ * Map a transcript page to the API response format
+ */
+export function toTranscriptResponse(podcastId: string, page: TranscriptPage) {
+    return {
+        podcast_id: podcastId,
+        segments: page.segments.map(s => ({
+            id: s.id,
+            sentence_index: s.sentenceIndex,
+            text: s.text,
+            start_time: s.startTime,
+            end_time: s.endTime,
+            words: s.words?.map(w => ({
+                text: w.text,
+                start_time: w.startTime,
+                end_time: w.endTime,
+            })),
+        })),
+        next_cursor: page.nextCursor,
+        total_segments: page.totalSegments,
+        total_duration: page.totalDuration,
+    };
+}
+
+export function isTranscriptFormat(value: string): value is TranscriptFormat {
+    return (TRANSCRIPT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Caption timestamp: HH:MM:SS,mmm for SRT, HH:MM:SS.mmm for WebVTT
+ */
+function formatCaptionTime(seconds: number, separator: ',' | '.'): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+/**
+ * Caption text that can't break the cue it's in
+ * A blank line ends a cue and "-->" would end its timing line early; WebVTT
+ * also reads &, < and > as markup.
+ */
+function toCueText(text: string, format: 'srt' | 'vtt'): string {
+    const cue = text
+        .trim()
+        .replace(/\s*[\r\n]+\s*/g, '\n')
+        .replace(/-->/g, '->');
+
+    if (format === 'srt') return cue;
+    return cue.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function formatClockTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+function toParagraphs(segments: TranscriptSegment[]): TranscriptSegment[][] {
+    const paragraphs: TranscriptSegment[][] = [];
+    for (let i = 0; i < segments.length; i += PARAGRAPH_SENTENCES) {
+        paragraphs.push(segments.slice(i, i + PARAGRAPH_SENTENCES));
+    }
+    return paragraphs;
+}
+
+function toFilename(title: string): string {
+    const slug = title
+        .replace(/[^\w\s-]+/g, '')
+        .trim()
+        .replace(/\s+/g, '-')
+        .toLowerCase()
+        .slice(0, 80);
+    return slug || 'transcript';
+}
+
+/**
+ * Render a whole transcript in a download format
+ */
+export function exportTranscript(
+    format: TranscriptFormat,
+    title: string,
+    segments: TranscriptSegment[]
+): { body: string; contentType: string; filename: string } {
+    let body: string;
+
+    switch (format) {
+        case 'srt':
+            body = segments.map((s, i) =>
+                `${i + 1}\n${formatCaptionTime(s.startTime, ',')} --> ${formatCaptionTime(s.endTime, ',')}\n${toCueText(s.text, 'srt')}\n`
+            ).join('\n');
+            break;
+        case 'vtt':
+            body = 'WEBVTT\n\n' + segments.map(s =>
+                `${formatCaptionTime(s.startTime, '.')} --> ${formatCaptionTime(s.endTime, '.')}\n${toCueText(s.text, 'vtt')}\n`
+            ).join('\n');
+            break;
+        case 'txt':
+            body = `${title}\n\n` + toParagraphs(segments)
+                .map(paragraph => paragraph.map(s => s.text).join(' '))
+                .join('\n\n') + '\n';
+            break;
+        case 'md':
+            body = `# ${title}\n\n` + toParagraphs(segments)
+                .map(paragraph => `**[${formatClockTime(paragraph[0].startTime)}]** ${paragraph.map(s => s.text).join(' ')}`)
+                .join('\n\n') + '\n';
+            break;
+    }
+
+    return {
+        body,
+        contentType: CONTENT_TYPES[format],
+        filename: `${toFilename(title)}.${format}`,
+    };
+}
@@ -0,0 +1,101 @@
+/**
+ * ElevenLabs TTS Provider
+ * Uses the with-timestamps endpoint, whose character alignment gives exact word timings.
+ */
+
+import { TTSProvider, TTSWord } from './types';
+
+interface Alignment {
+    characters: string[];
+    character_start_times_seconds: number[];
+    character_end_times_seconds: number[];
+}
+
+/**
+ * Group aligned characters into whitespace-separated words
+ */
+function alignmentToWords(alignment: Alignment): TTSWord[] {
+    const words: TTSWord[] = [];
+    let current: TTSWord | null = null;
+
+    alignment.characters.forEach((char, i) => {
+        if (/\s/.test(char)) {
+            current = null;
+            return;
+        }
+
+        if (!current) {
+            current = { text: '', startTime: alignment.character_start_times_seconds[i], endTime: 0 };
+            words.push(current);
+        }
+        current.text += char;
+        current.endTime = alignment.character_end_times_seconds[i];
+    });
+
+    return words;
+}
+
+export const elevenLabsProvider: TTSProvider = {
+    id: 'elevenlabs',
+    name: 'ElevenLabs',
+    capabilities: {
+        ssml: false,
+        // Free and starter tiers only allow a couple of concurrent requests
+        maxConcurrency: 2,
+    },
+    // eleven_turbo_v2 accepts up to 5000 characters per request
+    audioFormat: 'mp3',
+    maxChunkBytes: 4500,
+    voices: {
+        narrator: { id: '21m00Tcm4TlvDq8ikWAM', languageCode: 'en-US' },      // Rachel
+        storyteller: { id: 'EXAVITQu4vr4xnSDxMaL', languageCode: 'en-US' },   // Bella
+        professional: { id: 'VR6AewLTigWG4xSOukaG', languageCode: 'en-US' },  // Arnold
+        podcast_host: { id: 'TxGEqnHWrfWFTfGW9XjX', languageCode: 'en-US' },  // Josh
+        calm: { id: 'pNInz6obpgDQGcFmaJgB', languageCode: 'en-US' },          // Adam
+        confident: { id: 'yoZ06aMxZJJ28mfd3POQ', languageCode: 'en-US' },     // Sam
+        friendly: { id: 'jBpfuIE2acCO8z3wKNLl', languageCode: 'en-US' },      // Elli
+        deep: { id: 'ErXwobaYiN019PkySvjV', languageCode: 'en-US' },          // Antoni
+    },
+
+    isConfigured: () => !!process.env.ELEVENLABS_API_KEY,
+
+    async synthesize(sentences, voice, signal) {
+        const apiKey = process.env.ELEVENLABS_API_KEY;
+
+        if (!apiKey) {
+            throw new Error('ELEVENLABS_API_KEY not configured');
+        }
+
+        const response = await fetch(
+            `https://api.elevenlabs.io/v1/text-to-speech/${voice.id}/with-timestamps`,
+            {
+                method: 'POST',
+                headers: {
+                    'xi-api-key': apiKey,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    text: sentences.join(' '),
+                    model_id: 'eleven_turbo_v2',
+                    voice_settings: {
+                        stability: 0.5,
+                        similarity_boost: 0.75,
+                    },
+                }),
+                signal,
+            }
+        );
+
+        if (!response.ok) {
+            const error = await response.text();
+            throw new Error(`ElevenLabs error: ${error}`);
+        }
+
+        const data = await response.json();
+
+        return {
+            audio: Buffer.from(data.audio_base64, 'base64'),
+            words: data.alignment ? alignmentToWords(data.alignment) : undefined,
+        };
+    },
+};
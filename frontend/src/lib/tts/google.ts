@@ -0,0 +1,101 @@
+/**
+ * Google Cloud TTS Provider (free tier: 1M chars/month)
+ * Sentences are wrapped in SSML <mark>s so Google reports when each one starts.
+ */
+
+import { TTSProvider, TTSVoice } from './types';
+
+// Hard request limit for text or SSML input
+const MAX_INPUT_BYTES = 5000;
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/**
+ * SSML with a mark before each sentence, or null if it can't be used
+ * (Journey voices reject SSML, and the markup must still fit in one request)
+ */
+function buildMarkedSsml(sentences: string[], voice: TTSVoice): string | null {
+    if (voice.id.includes('-Journey-')) return null;
+
+    const ssml = `<speak>${sentences.map((sentence, i) => `<mark name="${i}"/>${escapeXml(sentence)}`).join(' ')}</speak>`;
+    return Buffer.byteLength(ssml, 'utf8') <= MAX_INPUT_BYTES ? ssml : null;
+}
+
+export const googleProvider: TTSProvider = {
+    id: 'google',
+    name: 'Google Cloud TTS',
+    capabilities: {
+        ssml: true,
+        maxConcurrency: 32,
+    },
+    // Google TTS limit is 5000 bytes - 4000 leaves room for the SSML marks
+    audioFormat: 'mp3',
+    maxChunkBytes: 4000,
+    voices: {
+        narrator: { id: 'en-US-Journey-D', languageCode: 'en-US' },
+        storyteller: { id: 'en-US-Journey-F', languageCode: 'en-US' },
+        professional: { id: 'en-US-Studio-M', languageCode: 'en-US' },
+        podcast_host: { id: 'en-US-Studio-O', languageCode: 'en-US' },
+        calm: { id: 'en-US-Neural2-A', languageCode: 'en-US' },
+        confident: { id: 'en-US-Neural2-D', languageCode: 'en-US' },
+        friendly: { id: 'en-US-Neural2-F', languageCode: 'en-US' },
+        deep: { id: 'en-US-Neural2-J', languageCode: 'en-US' },
+    },
+
+    isConfigured: () => !!process.env.GOOGLE_CLOUD_API_KEY,
+
+    async synthesize(sentences, voice, signal) {
+        const apiKey = process.env.GOOGLE_CLOUD_API_KEY;
+
+        if (!apiKey) {
+            throw new Error('GOOGLE_CLOUD_API_KEY not configured');
+        }
+
+        // Timepoints are only available from v1beta1
+        const url = `https://texttospeech.googleapis.com/v1beta1/text:synthesize?key=${apiKey}`;
+        const ssml = buildMarkedSsml(sentences, voice);
+
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                input: ssml ? { ssml } : { text: sentences.join(' ') },
+                voice: {
+                    languageCode: voice.languageCode,
+                    name: voice.id,
+                },
+                audioConfig: {
+                    audioEncoding: 'MP3',
+                    speakingRate: 0.95,
+                    pitch: 0,
+                },
+                ...(ssml && { enableTimePointing: ['SSML_MARK'] }),
+            }),
+            signal,
+        });
+
+        if (!response.ok) {
+            const error = await response.text();
+            throw new Error(`Google TTS error: ${error}`);
+        }
+
+        const data = await response.json();
+        const audio = Buffer.from(data.audioContent, 'base64');
+
+        const timepoints: { markName: string; timeSeconds: number }[] = data.timepoints || [];
+        const starts = sentences.map((_, i) => timepoints.find(t => t.markName === String(i))?.timeSeconds);
+
+        // Sentence timing is best-effort - leave it to the caller if any mark is missing
+        if (!ssml || starts.some(start => start === undefined)) {
+            return { audio };
+        }
+        return { audio, sentenceStarts: starts as number[] };
+    },
+};
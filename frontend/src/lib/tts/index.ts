@@ -0,0 +1,323 @@
+/**
+ * Text-to-Speech Service
+ * Synthesizes long text by chunking it for a registered TTSProvider.
+ * Providers are tried in TTS_PROVIDERS order (default "google,elevenlabs");
+ * unconfigured ones are skipped and a failing one falls back to the next.
+ * A provider can also be picked directly by its pinned voice style (e.g. "local").
+ */
+
+import { TTSChunkAudio, TTSOptions, TTSProvider, TTSResult, TTSSegment, TTSVoice, TTSWord } from './types';
+import { googleProvider } from './google';
+import { elevenLabsProvider } from './elevenlabs';
+import { localProvider } from './local';
+import { getWavDuration } from '../wav';
+import { getMp3Duration } from '../mp3';
+import { assembleAudio } from '../audio';
+
+export type { AudioFormat, TTSChunkAudio, TTSOptions, TTSProvider, TTSResult, TTSSegment, TTSVoice, TTSWord, TTSCapabilities } from './types';
+
+// Voice styles offered in the UI - every provider maps these to its own voices
+const VOICE_STYLES: Record<string, { description: string }> = {
+    narrator: { description: 'Natural Narrator - Warm, engaging male voice' },
+    storyteller: { description: 'Storyteller - Expressive female voice' },
+    professional: { description: 'Professional - Clear, authoritative male' },
+    podcast_host: { description: 'Podcast Host - Friendly, conversational' },
+    calm: { description: 'Calm & Relaxed - Soothing female voice' },
+    confident: { description: 'Confident - Strong male voice' },
+    friendly: { description: 'Friendly - Warm female voice' },
+    deep: { description: 'Deep Voice - Rich, deep male voice' },
+    local: { description: 'Offline - Local speech engine (espeak-ng or Piper)' },
+};
+
+// Map voice styles
+const VOICE_STYLE_MAP: Record<string, string> = {
+    news_anchor: 'professional',
+    calm_female: 'calm',
+    deep_narrator: 'deep',
+    casual_podcast: 'podcast_host',
+    energetic: 'storyteller',
+    narrator: 'narrator',
+    storyteller: 'storyteller',
+    professional: 'professional',
+    podcast_host: 'podcast_host',
+    calm: 'calm',
+    confident: 'confident',
+    friendly: 'friendly',
+    deep: 'deep',
+    local: 'local',
+};
+
+const DEFAULT_PROVIDER_ORDER = 'google,elevenlabs';
+
+// ============== Provider Registry ==============
+
+const providers = new Map<string, TTSProvider>();
+
+/**
+ * Make a provider available to TTS_PROVIDERS
+ */
+export function registerTTSProvider(provider: TTSProvider): void {
+    providers.set(provider.id, provider);
+}
+
+registerTTSProvider(googleProvider);
+registerTTSProvider(elevenLabsProvider);
+registerTTSProvider(localProvider);
+
+/**
+ * Providers in fallback order, as configured by TTS_PROVIDERS
+ * A voice style pinned to a provider uses only that provider
+ */
+function getProviderChain(voiceStyle: string): TTSProvider[] {
+    const pinned = Array.from(providers.values()).find(p => p.pinnedVoiceStyle === voiceStyle);
+    if (pinned) return [pinned];
+
+    const ids = (process.env.TTS_PROVIDERS || DEFAULT_PROVIDER_ORDER)
+        .split(',')
+        .map(id => id.trim())
+        .filter(Boolean);
+
+    return ids.map(id => {
+        const provider = providers.get(id);
+        if (!provider) {
+            throw new Error(`Unknown TTS provider "${id}" in TTS_PROVIDERS. Available: ${Array.from(providers.keys()).join(', ')}`);
+        }
+        return provider;
+    });
+}
+
+// ============== Synthesis ==============
+
+/**
+ * Split text into chunks of whole sentences
+ * A sentence longer than maxBytes is split at word boundaries into several pieces
+ */
+function splitTextIntoChunks(text: string, maxBytes: number): string[][] {
+    const chunks: string[][] = [];
+    const sentences: string[] = [];
+
+    for (const sentence of text.split(/(?<=[.!?])\s+/).filter(s => s.trim())) {
+        if (Buffer.byteLength(sentence, 'utf8') <= maxBytes) {
+            sentences.push(sentence);
+            continue;
+        }
+
+        // Single sentence is too long, split at word boundary
+        let wordChunk = '';
+        for (const word of sentence.split(' ')) {
+            const potentialWordChunk = wordChunk ? `${wordChunk} ${word}` : word;
+            if (Buffer.byteLength(potentialWordChunk, 'utf8') > maxBytes) {
+                if (wordChunk) sentences.push(wordChunk);
+                wordChunk = word;
+            } else {
+                wordChunk = potentialWordChunk;
+            }
+        }
+        if (wordChunk) sentences.push(wordChunk);
+    }
+
+    let currentChunk: string[] = [];
+    let currentBytes = 0;
+
+    for (const sentence of sentences) {
+        // Check byte length (UTF-8), counting the joining space
+        const bytes = Buffer.byteLength(sentence, 'utf8') + (currentChunk.length ? 1 : 0);
+
+        if (currentChunk.length && currentBytes + bytes > maxBytes) {
+            chunks.push(currentChunk);
+            currentChunk = [sentence];
+            currentBytes = Buffer.byteLength(sentence, 'utf8');
+        } else {
+            currentChunk.push(sentence);
+            currentBytes += bytes;
+        }
+    }
+
+    if (currentChunk.length) {
+        chunks.push(currentChunk);
+    }
+
+    return chunks;
+}
+
+function splitWords(text: string): string[] {
+    return text.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Estimate word timings within a sentence by sharing its time out by word length
+ * Used when the provider doesn't report word timings
+ */
+function estimateWordTimings(text: string, startTime: number, endTime: number): TTSWord[] {
+    const words = splitWords(text);
+    // +1 per word stands in for the short gap between words
+    const totalWeight = words.reduce((sum, word) => sum + word.length + 1, 0) || 1;
+    let elapsed = startTime;
+
+    return words.map(word => {
+        const start = elapsed;
+        elapsed += ((endTime - startTime) * (word.length + 1)) / totalWeight;
+        return { text: word, startTime: start, endTime: elapsed };
+    });
+}
+
+/**
+ * Place a chunk's sentences (and their words) on the timeline of the combined audio
+ * Uses the provider's word or sentence timings when it reports them,
+ * otherwise shares the chunk's measured duration out by sentence length
+ */
+function timeSentences(sentences: string[], chunk: TTSChunkAudio, chunkStart: number, chunkDuration: number): TTSSegment[] {
+    const wordCounts = sentences.map(sentence => splitWords(sentence).length);
+    const totalWords = wordCounts.reduce((sum, count) => sum + count, 0);
+    const words = chunk.words?.length === totalWords ? chunk.words : undefined;
+    const firstWords = wordCounts.map((_, i) => wordCounts.slice(0, i).reduce((sum, count) => sum + count, 0));
+
+    let starts = chunk.sentenceStarts;
+
+    if ((!starts || starts.length !== sentences.length) && words) {
+        starts = firstWords.map(first => words[first].startTime);
+    } else if (!starts || starts.length !== sentences.length) {
+        const totalChars = sentences.reduce((sum, sentence) => sum + sentence.length, 0) || 1;
+        let elapsed = 0;
+        starts = sentences.map(sentence => {
+            const start = elapsed;
+            elapsed += (chunkDuration * sentence.length) / totalChars;
+            return start;
+        });
+    }
+
+    const sentenceStarts = starts;
+    return sentences.map((text, i) => {
+        const startTime = chunkStart + sentenceStarts[i];
+        const endTime = chunkStart + (i + 1 < sentenceStarts.length ? sentenceStarts[i + 1] : chunkDuration);
+
+        return {
+            text: text.trim(),
+            startTime,
+            endTime,
+            words: words
+                ? words.slice(firstWords[i], firstWords[i] + wordCounts[i]).map(word => ({
+                    text: word.text,
+                    startTime: chunkStart + word.startTime,
+                    endTime: chunkStart + word.endTime,
+                }))
+                : estimateWordTimings(text, startTime, endTime),
+        };
+    });
+}
+
+/**
+ * Run `fn` over items with at most `limit` calls in flight, preserving order
+ * Nothing new is started after the first failure - the whole run fails anyway
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    let failed = false;
+
+    const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (!failed && next < items.length) {
+            const index = next++;
+            try {
+                results[index] = await fn(items[index]);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    });
+
+    await Promise.all(workers);
+    return results;
+}
+
+/**
+ * Generate audio with one provider (handles long text)
+ */
+async function generateWithProvider(
+    provider: TTSProvider,
+    text: string,
+    voiceStyle: string,
+    { onProgress, signal }: TTSOptions
+): Promise<TTSResult> {
+    const mappedStyle = VOICE_STYLE_MAP[voiceStyle] || 'narrator';
+    const voice: TTSVoice = provider.voices[mappedStyle] || provider.voices.narrator;
+
+    console.log(`🔊 ${provider.name}: ${mappedStyle} (${voice.id})`);
+
+    // Split text into chunks if needed
+    const chunks = splitTextIntoChunks(text, provider.maxChunkBytes);
+    console.log(`📝 Text split into ${chunks.length} chunks`);
+
+    console.log(`  🎵 Generating ${chunks.length} chunks (up to ${provider.capabilities.maxConcurrency} in parallel)...`);
+    let completedChunks = 0;
+    const chunkAudio = await mapWithConcurrency(chunks, provider.capabilities.maxConcurrency, async chunk => {
+        const result = await provider.synthesize(chunk, voice, signal);
+        onProgress?.(++completedChunks, chunks.length);
+        return result;
+    });
+    console.log(`  ✅ All chunks generated`);
+
+    const format = provider.audioFormat;
+    const audioBuffers = chunkAudio.map(chunk => chunk.audio);
+    const measure = format === 'wav' ? getWavDuration : getMp3Duration;
+    const { audio, duration, offsets } = assembleAudio(format, audioBuffers);
+
+    const segments: TTSSegment[] = [];
+    chunks.forEach((sentences, i) => {
+        segments.push(...timeSentences(sentences, chunkAudio[i], offsets[i], measure(audioBuffers[i])));
+    });
+
+    console.log(`✅ ${provider.name} complete: ${audio.length} bytes (${format}), ${Math.round(duration)}s`);
+
+    return {
+        audio,
+        duration,
+        format,
+        segments,
+    };
+}
+
+/**
+ * Main audio generation function
+ * Tries each configured provider in order, falling back to the next on error
+ */
+export async function generateAudio(
+    text: string,
+    voiceStyle: string = 'narrator',
+    options: TTSOptions = {}
+): Promise<TTSResult> {
+    console.log(`🎤 TTS: voice=${voiceStyle}, ${text.length} chars, ${text.split(/\s+/).length} words`);
+
+    const chain = getProviderChain(voiceStyle).filter(provider => provider.isConfigured());
+
+    if (chain.length === 0) {
+        throw new Error('No TTS service configured. Please add GOOGLE_CLOUD_API_KEY to .env.local');
+    }
+
+    const failures: string[] = [];
+
+    for (const provider of chain) {
+        try {
+            return await generateWithProvider(provider, text, voiceStyle, options);
+        } catch (error: any) {
+            // Cancelled - don't fall back to another provider
+            if (options.signal?.aborted) throw error;
+
+            console.error(`❌ ${provider.name} failed:`, error.message);
+            failures.push(`${provider.name}: ${error.message}`);
+
+            if (provider !== chain[chain.length - 1]) {
+                console.log('⚠️ Falling back to next TTS provider...');
+            }
+        }
+    }
+
+    throw new Error(chain.length === 1 ? failures[0] : `All TTS services failed. ${failures.join('; ')}`);
+}
+
+// Export voice options for UI
+export const VOICE_OPTIONS = Object.entries(VOICE_STYLES).map(([key, voice]) => ({
+    id: key,
+    name: voice.description,
+}));
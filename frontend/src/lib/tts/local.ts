@@ -0,0 +1,125 @@
+/**
+ * Local TTS Provider
+ * Shells out to an installed speech engine so audio can be made offline and without API keys.
+ * - LOCAL_TTS_ENGINE: "espeak-ng" (default) or "piper"
+ * - LOCAL_TTS_BINARY: path to the engine binary (default: the engine name on PATH)
+ * - LOCAL_TTS_VOICE: espeak-ng voice (default "en-us")
+ * - LOCAL_TTS_MODEL: Piper voice model (.onnx), required for Piper
+ * - LOCAL_TTS_FORMAT: "wav" (default) or "mp3" (encoded with ffmpeg, LOCAL_TTS_FFMPEG_PATH)
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { TTSProvider, TTSVoice } from './types';
+
+function getEngine(): 'espeak-ng' | 'piper' {
+    const engine = process.env.LOCAL_TTS_ENGINE || 'espeak-ng';
+    if (engine !== 'espeak-ng' && engine !== 'piper') {
+        throw new Error(`Unknown LOCAL_TTS_ENGINE "${engine}". Use "espeak-ng" or "piper"`);
+    }
+    return engine;
+}
+
+/**
+ * Run a command, feeding `input` on stdin, and collect stdout
+ */
+function run(binary: string, args: string[], input: Buffer | string, signal?: AbortSignal): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(binary, args, { signal });
+        const stdout: Buffer[] = [];
+        const stderr: Buffer[] = [];
+
+        child.stdout.on('data', (data: Buffer) => stdout.push(data));
+        child.stderr.on('data', (data: Buffer) => stderr.push(data));
+
+        child.on('error', (error: any) => {
+            if (error.code === 'ENOENT') {
+                reject(new Error(`${binary} not found. Install it or set its path in .env.local`));
+            } else {
+                reject(error);
+            }
+        });
+
+        child.on('close', (code) => {
+            if (code === 0) {
+                resolve(Buffer.concat(stdout.map(buf => new Uint8Array(buf))));
+            } else {
+                const message = Buffer.concat(stderr.map(buf => new Uint8Array(buf))).toString().trim();
+                reject(new Error(`${path.basename(binary)} exited with code ${code}${message ? `: ${message}` : ''}`));
+            }
+        });
+
+        child.stdin.on('error', () => { }); // Reported through 'close' instead
+        child.stdin.end(input);
+    });
+}
+
+async function synthesizeWithEspeak(text: string, voice: TTSVoice, signal?: AbortSignal): Promise<Buffer> {
+    const binary = process.env.LOCAL_TTS_BINARY || 'espeak-ng';
+    // ~150 words per minute matches the pace of the cloud voices
+    return run(binary, ['-v', voice.id, '-s', '150', '--stdin', '--stdout'], text, signal);
+}
+
+async function synthesizeWithPiper(text: string, signal?: AbortSignal): Promise<Buffer> {
+    const binary = process.env.LOCAL_TTS_BINARY || 'piper';
+    const model = process.env.LOCAL_TTS_MODEL;
+
+    if (!model) {
+        throw new Error('LOCAL_TTS_MODEL must point to a Piper voice model (.onnx)');
+    }
+
+    // Piper needs a seekable output file to write a complete WAV header
+    const outputPath = path.join(os.tmpdir(), `piper-${uuidv4()}.wav`);
+
+    try {
+        await run(binary, ['--model', model, '--output_file', outputPath], text, signal);
+        return await fs.readFile(outputPath);
+    } finally {
+        await fs.rm(outputPath, { force: true });
+    }
+}
+
+async function encodeMp3(wav: Buffer, signal?: AbortSignal): Promise<Buffer> {
+    const ffmpeg = process.env.LOCAL_TTS_FFMPEG_PATH || 'ffmpeg';
+    return run(ffmpeg, [
+        '-hide_banner', '-loglevel', 'error',
+        '-f', 'wav', '-i', 'pipe:0',
+        '-codec:a', 'libmp3lame', '-b:a', '96k',
+        '-f', 'mp3', 'pipe:1',
+    ], wav, signal);
+}
+
+export const localProvider: TTSProvider = {
+    id: 'local',
+    name: 'Local TTS',
+    capabilities: {
+        ssml: false,
+        maxConcurrency: Math.max(1, Math.min(4, os.cpus().length - 1)),
+    },
+    maxChunkBytes: 4500,
+    // One configured voice serves every style
+    get voices(): Record<string, TTSVoice> {
+        return {
+            narrator: { id: process.env.LOCAL_TTS_VOICE || 'en-us', languageCode: 'en-US' },
+        };
+    },
+    get audioFormat(): 'mp3' | 'wav' {
+        return process.env.LOCAL_TTS_FORMAT === 'mp3' ? 'mp3' : 'wav';
+    },
+    pinnedVoiceStyle: 'local',
+
+    // Nothing to sign up for - a missing binary is reported when synthesizing
+    isConfigured: () => true,
+
+    async synthesize(sentences, voice, signal) {
+        const text = sentences.join(' ');
+        const wav = getEngine() === 'piper'
+            ? await synthesizeWithPiper(text, signal)
+            : await synthesizeWithEspeak(text, voice, signal);
+
+        return { audio: this.audioFormat === 'mp3' ? await encodeMp3(wav, signal) : wav };
+    },
+};
@@ -0,0 +1,74 @@
+/**
+ * Text-to-Speech Provider Types
+ */
+
+export type AudioFormat = 'mp3' | 'wav';
+
+export interface TTSWord {
+    text: string;
+    startTime: number;
+    endTime: number;
+}
+
+export interface TTSSegment {
+    text: string;
+    /** Seconds from the start of the combined audio */
+    startTime: number;
+    endTime: number;
+    /** Timing of each word, on the same timeline as the sentence */
+    words?: TTSWord[];
+}
+
+export interface TTSResult {
+    audio: Buffer;
+    duration: number;
+    format: AudioFormat;
+    /** Where each sentence falls in the audio */
+    segments: TTSSegment[];
+}
+
+export interface TTSChunkAudio {
+    audio: Buffer;
+    /** Seconds into the chunk at which each sentence starts, if the provider reports it */
+    sentenceStarts?: number[];
+    /** Every word of the chunk with times in seconds into the chunk, if the provider reports them */
+    words?: TTSWord[];
+}
+
+export interface TTSOptions {
+    /** Called each time a chunk finishes synthesizing */
+    onProgress?: (completedChunks: number, totalChunks: number) => void;
+    /** Aborts pending synthesis requests */
+    signal?: AbortSignal;
+}
+
+export interface TTSVoice {
+    /** Provider-specific voice name or ID */
+    id: string;
+    languageCode: string;
+}
+
+export interface TTSCapabilities {
+    /** Accepts SSML markup as input */
+    ssml: boolean;
+    /** Chunk requests that may be in flight at once */
+    maxConcurrency: number;
+}
+
+export interface TTSProvider {
+    id: string;
+    name: string;
+    capabilities: TTSCapabilities;
+    /** Container of the buffers returned by synthesize */
+    audioFormat: AudioFormat;
+    /** Voice style that selects this provider regardless of TTS_PROVIDERS */
+    pinnedVoiceStyle?: string;
+    /** Largest chunk of text (UTF-8 bytes) accepted by one synthesize call */
+    maxChunkBytes: number;
+    /** Provider voice for each voice style (see VOICE_STYLES) - must include `narrator` */
+    voices: Record<string, TTSVoice>;
+    /** Whether credentials etc. are present - unconfigured providers are skipped */
+    isConfigured: () => boolean;
+    /** Synthesize one chunk (a group of consecutive sentences) */
+    synthesize: (sentences: string[], voice: TTSVoice, signal?: AbortSignal) => Promise<TTSChunkAudio>;
+}
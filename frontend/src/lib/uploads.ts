@@ -0,0 +1,62 @@
+/**
+ * Document Uploads
+ * Checks files posted to /api/podcasts and /api/documents/chapters
+ * Uploads are limited to UPLOAD_MAX_MB, like linked documents (see extractor.ts)
+ */
+
+import { NextResponse } from 'next/server';
+import { isSupportedDocument, MAX_DOCUMENT_BYTES, SourceDocument } from './extractor';
+
+// Room for the multipart boundaries and the other form fields around the file
+const MAX_FORM_OVERHEAD_BYTES = 1024 * 1024;
+
+function tooLarge(): NextResponse {
+    return NextResponse.json(
+        { error: `File is too large (max ${Math.round(MAX_DOCUMENT_BYTES / 1024 / 1024)} MB)` },
+        { status: 413 }
+    );
+}
+
+/**
+ * Error response for a form upload that can't fit the size limit, or null if it may
+ * Checked from Content-Length before the body is read, so an oversized upload isn't
+ * buffered in memory just to be refused
+ */
+export function checkUploadLength(request: Request): NextResponse | null {
+    if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+        return null;
+    }
+
+    const length = Number(request.headers.get('content-length'));
+    if (!request.headers.has('content-length') || !Number.isFinite(length)) {
+        return NextResponse.json({ error: 'Uploads must set Content-Length' }, { status: 411 });
+    }
+
+    return length > MAX_DOCUMENT_BYTES + MAX_FORM_OVERHEAD_BYTES ? tooLarge() : null;
+}
+
+/**
+ * Error response for an upload we won't read, or null if the file is fine
+ */
+export function validateUpload(file: File): NextResponse | null {
+    if (!isSupportedDocument(file.name, file.type)) {
+        return NextResponse.json(
+            { error: 'Unsupported file type. Upload a PDF, EPUB, DOCX, Markdown or HTML file' },
+            { status: 400 }
+        );
+    }
+
+    if (file.size > MAX_DOCUMENT_BYTES) {
+        return tooLarge();
+    }
+
+    return null;
+}
+
+export async function toSourceDocument(file: File): Promise<SourceDocument> {
+    return {
+        data: Buffer.from(await file.arrayBuffer()),
+        name: file.name,
+        contentType: file.type || 'application/octet-stream',
+    };
+}
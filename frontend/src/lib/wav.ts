@@ -0,0 +1,98 @@
+/**
+ * WAV (RIFF PCM) Helpers
+ * Used for audio from local speech engines, which emit one WAV file per chunk
+ */
+
+interface WavParts {
+    fmt: Buffer;
+    data: Buffer;
+    byteRate: number;
+}
+
+/**
+ * Find the `fmt ` and `data` chunks of a WAV file
+ */
+function parseWav(buffer: Buffer): WavParts {
+    if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+        throw new Error('Not a WAV file');
+    }
+
+    let fmt: Buffer | null = null;
+    let offset = 12;
+
+    while (offset + 8 <= buffer.length) {
+        const id = buffer.toString('ascii', offset, offset + 4);
+        const size = buffer.readUInt32LE(offset + 4);
+        const start = offset + 8;
+
+        if (id === 'fmt ') {
+            fmt = buffer.subarray(start, start + size);
+        } else if (id === 'data') {
+            if (!fmt) break;
+            // Engines writing to a pipe can't seek back to fill in the size - take the rest
+            const end = Math.min(buffer.length, start + size);
+            return { fmt, data: buffer.subarray(start, end), byteRate: fmt.readUInt32LE(8) };
+        }
+
+        // Chunks are padded to an even length
+        offset = start + size + (size % 2);
+    }
+
+    throw new Error('WAV file has no audio data');
+}
+
+/**
+ * Exact duration of a WAV file in seconds
+ */
+export function getWavDuration(buffer: Buffer): number {
+    const { data, byteRate } = parseWav(buffer);
+    return byteRate > 0 ? data.length / byteRate : 0;
+}
+
+/**
+ * Join WAV files with identical formats into one file, separated by `gapSeconds` of silence
+ * Returns where each file starts in the joined audio.
+ */
+export function concatWav(buffers: Buffer[], gapSeconds = 0): { audio: Buffer; duration: number; offsets: number[] } {
+    if (buffers.length === 0) {
+        throw new Error('No audio to combine');
+    }
+
+    const parts = buffers.map(parseWav);
+    const fmt = parts[0].fmt;
+
+    if (parts.some(part => !part.fmt.equals(fmt))) {
+        throw new Error('Cannot combine WAV files with different formats');
+    }
+
+    // Silence is zeroed samples, rounded to whole sample frames
+    const blockAlign = fmt.readUInt16LE(12) || 1;
+    const byteRate = parts[0].byteRate;
+    const gap = Buffer.alloc(Math.round((gapSeconds * byteRate) / blockAlign) * blockAlign);
+
+    const data: Buffer[] = [];
+    const offsets: number[] = [];
+    parts.forEach((part, i) => {
+        if (i > 0) data.push(gap);
+        offsets.push(data.reduce((sum, buf) => sum + buf.length, 0) / byteRate);
+        data.push(part.data);
+    });
+
+    const dataLength = data.reduce((sum, buf) => sum + buf.length, 0);
+    const header = Buffer.alloc(12 + 8 + fmt.length + 8);
+
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(header.length - 8 + dataLength, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(fmt.length, 16);
+    fmt.copy(header, 20);
+    header.write('data', 20 + fmt.length, 'ascii');
+    header.writeUInt32LE(dataLength, 24 + fmt.length);
+
+    return {
+        audio: Buffer.concat([header, ...data].map(buf => new Uint8Array(buf))),
+        duration: dataLength / byteRate,
+        offsets,
+    };
+}
@@ -0,0 +1,147 @@
+/**
+ * ZIP Reader
+ * Reads entries from ZIP archives (EPUB and DOCX files are ZIPs) without any zip libraries:
+ * the central directory lists every entry, which is either stored or deflated.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// Guards against zip bombs - no document needs more
+const MAX_ENTRY_BYTES = 100 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+const MAX_ENTRIES = 10000;
+
+export interface ZipEntry {
+    name: string;
+    method: number;
+    compressedSize: number;
+    size: number;
+    /** Offset of the entry's local header */
+    offset: number;
+}
+
+export interface ZipArchive {
+    entries: Map<string, ZipEntry>;
+    /** Entry contents, or null if the archive has no such entry */
+    read(name: string): Buffer | null;
+    readText(name: string): string | null;
+}
+
+/**
+ * The end of central directory record sits in the last 64 KB (after an optional comment)
+ */
+function findEndOfCentralDirectory(data: Buffer): number {
+    const stop = Math.max(0, data.length - 22 - 0xffff);
+    for (let i = data.length - 22; i >= stop; i--) {
+        if (data.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) return i;
+    }
+    throw new Error('Not a ZIP archive');
+}
+
+function readEntries(data: Buffer): Map<string, ZipEntry> {
+    const end = findEndOfCentralDirectory(data);
+    const count = data.readUInt16LE(end + 10);
+    let position = data.readUInt32LE(end + 16);
+
+    if (count > MAX_ENTRIES) {
+        throw new Error(`ZIP archive has too many entries (${count})`);
+    }
+
+    const entries = new Map<string, ZipEntry>();
+    for (let i = 0; i < count; i++) {
+        if (position + 46 > data.length || data.readUInt32LE(position) !== CENTRAL_DIRECTORY_ENTRY) {
+            throw new Error('Corrupt ZIP archive');
+        }
+
+        const flags = data.readUInt16LE(position + 8);
+        const nameLength = data.readUInt16LE(position + 28);
+        const extraLength = data.readUInt16LE(position + 30);
+        const commentLength = data.readUInt16LE(position + 32);
+        // Bit 11: the name is UTF-8, otherwise CP437 (ASCII for the names we look up)
+        const name = data.toString(flags & 0x800 ? 'utf8' : 'latin1', position + 46, position + 46 + nameLength);
+
+        entries.set(name, {
+            name,
+            method: data.readUInt16LE(position + 10),
+            compressedSize: data.readUInt32LE(position + 20),
+            size: data.readUInt32LE(position + 24),
+            offset: data.readUInt32LE(position + 42),
+        });
+
+        position += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}
+
+function tooLarge(entry: ZipEntry): Error {
+    return new Error(`ZIP archive is too large when decompressed (at ${entry.name})`);
+}
+
+/**
+ * Decompress an entry into at most `maxBytes`
+ */
+function readEntry(data: Buffer, entry: ZipEntry, maxBytes: number): Buffer {
+    if (entry.size > maxBytes || maxBytes <= 0) {
+        throw tooLarge(entry);
+    }
+    if (data.readUInt32LE(entry.offset) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupt ZIP entry: ${entry.name}`);
+    }
+
+    // The local header's name and extra field lengths can differ from the central directory's
+    const start = entry.offset + 30 + data.readUInt16LE(entry.offset + 26) + data.readUInt16LE(entry.offset + 28);
+    const compressed = data.subarray(start, start + entry.compressedSize);
+
+    switch (entry.method) {
+        case METHOD_STORED:
+            if (compressed.length > maxBytes) {
+                throw tooLarge(entry);
+            }
+            return Buffer.from(compressed);
+        case METHOD_DEFLATE:
+            // The sizes in the directory can lie - stop inflating at the limit whatever they say
+            try {
+                return inflateRawSync(compressed, { maxOutputLength: maxBytes });
+            } catch (error: any) {
+                if (error.code === 'ERR_BUFFER_TOO_LARGE') {
+                    throw tooLarge(entry);
+                }
+                throw error;
+            }
+        default:
+            throw new Error(`Unsupported ZIP compression method ${entry.method}: ${entry.name}`);
+    }
+}
+
+/**
+ * Open a ZIP archive held in memory
+ * Everything read from one archive counts towards a single decompressed size limit.
+ */
+export function openZip(data: Buffer): ZipArchive {
+    const entries = readEntries(data);
+    let bytesRead = 0;
+
+    const read = (name: string): Buffer | null => {
+        const entry = entries.get(name.replace(/^\//, ''));
+        if (!entry) return null;
+
+        const remaining = MAX_ARCHIVE_BYTES - bytesRead;
+        const contents = readEntry(data, entry, Math.min(MAX_ENTRY_BYTES, remaining));
+        bytesRead += contents.length;
+        return contents;
+    };
+
+    return {
+        entries,
+        read,
+        readText: (name: string) => read(name)?.toString('utf8') ?? null,
+    };
+}
@@ -1,10 +1,42 @@
-// Middleware disabled - no authentication required for testing
-// All routes are public
+/**
+ * Authentication middleware
+ * Requires a signed-in session for /api/podcasts/**, /api/series/**, /api/feeds and
+ * /api/documents/chapters when Clerk is enabled.
+ * Public share routes, feed URLs (/api/feeds/[token]/**), audio streams (they check
+ * access themselves, see lib/streaming) and pages stay anonymous.
+ */
 
-export default function middleware() {
-    // No-op
+import { NextFetchEvent, NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '@clerk/nextjs';
+import { getAuthProviderName } from '@/lib/auth';
+
+const PROTECTED_PREFIXES = ['/api/podcasts', '/api/series'];
+const PROTECTED_ROUTES = ['/api/feeds', '/api/documents/chapters'];
+const AUDIO_ROUTE = /^\/api\/podcasts\/[^/]+\/audio$/;
+
+function isProtected(pathname: string): boolean {
+    if (AUDIO_ROUTE.test(pathname)) return false;
+    return PROTECTED_PREFIXES.some(prefix => pathname.startsWith(prefix)) || PROTECTED_ROUTES.includes(pathname);
+}
+
+let clerkMiddleware: ReturnType<typeof authMiddleware> | null = null;
+
+export default function middleware(request: NextRequest, event: NextFetchEvent) {
+    // Local auth stub - nothing to verify
+    if (getAuthProviderName() !== 'clerk') {
+        return NextResponse.next();
+    }
+
+    if (!clerkMiddleware) {
+        clerkMiddleware = authMiddleware({
+            publicRoutes: (req) => !isProtected(req.nextUrl.pathname),
+        });
+    }
+
+    return clerkMiddleware(request, event);
 }
 
 export const config = {
-    matcher: [], // Don't match any routes
+    // Everything except static files and Next.js internals
+    matcher: ['/((?!.+\\.[\\w]+$|_next).*)', '/', '/(api|trpc)(.*)'],
 };